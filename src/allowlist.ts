@@ -0,0 +1,77 @@
+const Ref = require('ssb-ref');
+
+function assertFeed(key: any) {
+  if (!Ref.isFeed(key)) {
+    throw new Error('Cannot allow "' + key + '", it is not a feed ID');
+  }
+}
+
+export function validateAllowlist(keys: any): string[] {
+  if (keys === undefined || keys === null) return [];
+  if (!Array.isArray(keys)) return ['should be an array of feed IDs'];
+  return keys
+    .map((key, i) =>
+      Ref.isFeed(key) ? '' : `[${i}] "${key}" is not a feed ID`,
+    )
+    .filter(Boolean);
+}
+
+/**
+ * When enabled, the only feed IDs that we connect with. Peers with no known
+ * feed ID are not allowed either.
+ */
+export class Allowlist {
+  private keys: Set<string> | null;
+
+  constructor(keys?: Array<string> | null) {
+    if (keys === undefined || keys === null) {
+      this.keys = null;
+    } else if (Array.isArray(keys)) {
+      keys.forEach(assertFeed);
+      this.keys = new Set(keys);
+    } else {
+      throw new Error('config.conn.allowlist should be an array of feed IDs');
+    }
+  }
+
+  public isEnabled() {
+    return this.keys !== null;
+  }
+
+  /**
+   * Enables the allowlist mode, if it was not enabled yet
+   */
+  public allow(key: string) {
+    assertFeed(key);
+    if (!this.keys) this.keys = new Set();
+    this.keys.add(key);
+  }
+
+  /**
+   * Removing the last key keeps the mode enabled, so that no one is allowed
+   */
+  public disallow(key: string): boolean {
+    if (!this.keys) return false;
+    return this.keys.delete(key);
+  }
+
+  /**
+   * Leaves the allowlist mode, allowing everyone again
+   */
+  public disable() {
+    this.keys = null;
+  }
+
+  /**
+   * Returns null if the allowlist mode is not enabled
+   */
+  public list(): Array<string> | null {
+    return this.keys ? Array.from(this.keys) : null;
+  }
+
+  public isAllowed(address: string, key?: string): boolean {
+    if (!this.keys) return true;
+    const feedId = key || Ref.getKeyFromAddress(address);
+    return !!feedId && this.keys.has(feedId);
+  }
+}
@@ -0,0 +1,98 @@
+import {Environment} from './environment';
+import {JsonFile} from './json-file';
+const Ref = require('ssb-ref');
+
+export type Ban = {
+  /**
+   * A multiserver address or an SSB feed ID
+   */
+  target: string;
+  createdAt: number;
+  /**
+   * Timestamp when the ban expires, or undefined if it never expires
+   */
+  until?: number;
+  reason?: string;
+};
+
+export type BanOpts = Partial<Pick<Ban, 'until' | 'reason'>>;
+
+/**
+ * Addresses and feed IDs that we refuse to connect with, persisted locally.
+ */
+export class BanList {
+  private readonly file: JsonFile<Array<Ban>>;
+  private readonly env: Environment;
+  private readonly bans: Map<string, Ban>;
+
+  constructor(file: JsonFile<Array<Ban>>, env: Environment) {
+    this.file = file;
+    this.env = env;
+    this.bans = new Map();
+
+    const saved = file.load();
+    if (Array.isArray(saved)) {
+      for (const ban of saved) {
+        if (ban && typeof ban.target === 'string') {
+          this.bans.set(ban.target, ban);
+        }
+      }
+    }
+  }
+
+  private save() {
+    this.file.write(Array.from(this.bans.values()));
+  }
+
+  private pruneExpired() {
+    const now = this.env.now();
+    let changed = false;
+    for (const [target, ban] of this.bans) {
+      if (typeof ban.until === 'number' && ban.until <= now) {
+        this.bans.delete(target);
+        changed = true;
+      }
+    }
+    if (changed) this.save();
+  }
+
+  public ban(target: string, opts: BanOpts = {}): Ban {
+    if (!Ref.isFeed(target) && !Ref.isAddress(target)) {
+      throw new Error(
+        'Cannot ban "' + target + '", it is not a feed ID nor an address',
+      );
+    }
+    if (opts.until !== undefined && typeof opts.until !== 'number') {
+      throw new Error('The ban option `until` should be a timestamp');
+    }
+    const ban: Ban = {target, createdAt: this.env.now()};
+    if (opts.until !== undefined) ban.until = opts.until;
+    if (opts.reason !== undefined) ban.reason = String(opts.reason);
+    this.bans.set(target, ban);
+    this.save();
+    return ban;
+  }
+
+  public unban(target: string): boolean {
+    const existed = this.bans.delete(target);
+    if (existed) this.save();
+    return existed;
+  }
+
+  public list(): Array<Ban> {
+    this.pruneExpired();
+    return Array.from(this.bans.values());
+  }
+
+  public isBanned(address: string, key?: string): boolean {
+    if (this.bans.size === 0) return false;
+    this.pruneExpired();
+    if (this.bans.has(address)) return true;
+    const feedId = key || Ref.getKeyFromAddress(address);
+    return !!feedId && this.bans.has(feedId);
+  }
+
+  public close() {
+    this.file.flush();
+  }
+}
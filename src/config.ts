@@ -0,0 +1,454 @@
+import {FeedId} from 'ssb-typescript';
+import {validateAllowlist} from './allowlist';
+import {validateEnvironment} from './environment';
+import {validateGC, GCConfig, DEFAULT_GC_CONFIG} from './gc';
+import {
+  validateHistory,
+  HistoryConfig,
+  DEFAULT_HISTORY_CONFIG,
+} from './history';
+import {
+  validateLatency,
+  validateLatencyLimits,
+  LatencyConfig,
+  LatencyLimits,
+  DEFAULT_LATENCY_CONFIG,
+} from './latency';
+import {validatePrivacy, PrivacyMode} from './privacy';
+import {validateProbe, DEFAULT_PROBE_CONFIG} from './probe';
+import {validatePubs, PubConfig, DEFAULT_PUB_CONFIG} from './pubs';
+import {
+  validateRotation,
+  RotationConfig,
+  DEFAULT_ROTATION_CONFIG,
+} from './rotation';
+import {validateRules, Rule, DEFAULT_RULES} from './scheduler-rules';
+import {validateScoring, ScoreWeights, DEFAULT_WEIGHTS} from './scoring';
+import {
+  validateStaging,
+  StagingConfig,
+  DEFAULT_STAGING_CONFIG,
+} from './staging';
+import {validateTransports} from './transports';
+import {
+  validateWatchdog,
+  WatchdogConfig,
+  DEFAULT_WATCHDOG_CONFIG,
+} from './watchdog';
+import {storagePath} from './json-file';
+import path = require('path');
+const msAddress = require('multiserver-address');
+const debug = require('debug')('ssb:conn:config');
+
+/**
+ * The configuration CONN and ConnScheduler run with, after applying the
+ * defaults to `config.conn`, `config.gossip`, `config.timers.ping` and
+ * `config.seeds`. Functions given in the config (such as a custom scorer,
+ * probe or environment) are not included.
+ */
+export type ResolvedConfig = {
+  path: string;
+  conn: {
+    autostart: boolean;
+    privacy: PrivacyMode | null;
+    allowlist: Array<FeedId> | null;
+    /**
+     * Null if every transport is allowed, in the default order
+     */
+    transports: Array<string> | null;
+    scoring: {weights: ScoreWeights; customScorer: boolean};
+    history: HistoryConfig;
+    staging: StagingConfig;
+    gc: GCConfig;
+    latency: LatencyConfig;
+    probe: {
+      interval: number;
+      timeout: number;
+      batch: number;
+      minFailures: number;
+    };
+    rotation: RotationConfig;
+    pubs: PubConfig;
+    watchdog: WatchdogConfig;
+    metrics: {port: number; host: string} | null;
+    scheduler: {
+      rules: Array<Rule>;
+      latency: LatencyLimits | null;
+      /**
+       * Milliseconds between the periodic updates of the scheduler
+       */
+      interval: number;
+    };
+  };
+  gossip: {
+    seed: boolean;
+    pub: boolean;
+    autoPopulate: boolean;
+  };
+  timers: {ping: number};
+  seeds: Array<string>;
+  /**
+   * The options that were ignored, see validateConfig()
+   */
+  warnings: Array<string>;
+};
+
+export type ConfigProblems = {
+  errors: Array<string>;
+  warnings: Array<string>;
+};
+
+export const PING_TIMEOUT = {min: 10e3, default: 5 * 60e3, max: 30 * 60e3};
+
+export const DEFAULT_SCHEDULER_INTERVAL = 2e3;
+
+type Section = {
+  validate?: (value: any) => Array<string>;
+  children?: {[name: string]: Section};
+  /**
+   * Accepted, but not validated, e.g. when read by other plugins
+   */
+  any?: boolean;
+};
+
+const isBoolean = (x: any) =>
+  typeof x === 'boolean' ? [] : ['should be a boolean'];
+
+// Older versions treated an empty string as unset, so we warn about it below
+const isGossipFlag = (x: any) => (x === '' ? [] : isBoolean(x));
+
+const isInterval = (x: any) =>
+  typeof x === 'number' && x > 0 ? [] : ['should be a positive duration'];
+
+const CONN_SECTION: Section = {
+  children: {
+    autostart: {validate: isBoolean},
+    privacy: {validate: validatePrivacy},
+    allowlist: {validate: validateAllowlist},
+    transports: {validate: validateTransports},
+    scoring: {validate: validateScoring},
+    history: {validate: validateHistory},
+    staging: {validate: validateStaging},
+    gc: {validate: validateGC},
+    latency: {validate: validateLatency},
+    probe: {validate: validateProbe},
+    rotation: {validate: validateRotation},
+    pubs: {validate: validatePubs},
+    watchdog: {validate: validateWatchdog},
+    metrics: {validate: validateMetrics},
+    environment: {validate: validateEnvironment},
+    scheduler: {
+      children: {
+        rules: {validate: validateSchedulerRules},
+        latency: {validate: validateLatencyLimits},
+        interval: {validate: isInterval},
+      },
+    },
+  },
+};
+
+const GOSSIP_SECTION: Section = {
+  children: {
+    seed: {validate: isGossipFlag},
+    pub: {validate: isGossipFlag},
+    autoPopulate: {validate: isGossipFlag},
+    // ssb-config and ssb-gossip users have these, which CONN doesn't use
+    connections: {any: true},
+    local: {any: true},
+    friends: {any: true},
+    global: {any: true},
+  },
+};
+
+// The messages of validateRules() start with "rules"
+function validateSchedulerRules(rules: any): string[] {
+  if (rules === null) return [];
+  return validateRules(rules).map(error => error.slice('rules'.length));
+}
+
+function validateMetrics(opts: any): string[] {
+  if (opts === undefined || opts === null) return [];
+  if (typeof opts !== 'object') return ['should be an object'];
+  const errors: Array<string> = [];
+  const {port, host} = opts;
+  if (
+    port !== undefined &&
+    port !== null &&
+    !(Number.isInteger(port) && port >= 0 && port <= 65535)
+  ) {
+    errors.push('port should be a port number');
+  }
+  if (host !== undefined && typeof host !== 'string') {
+    errors.push('host should be a string');
+  }
+  return errors;
+}
+
+function validateSeeds(seeds: any): string[] {
+  if (seeds === undefined || seeds === null) return [];
+  const isValid = (seed: any) =>
+    !seed || (typeof seed === 'string' && msAddress.check(seed));
+  if (!Array.isArray(seeds)) {
+    return isValid(seeds) ? [] : ['should be a multiserver address'];
+  }
+  return seeds
+    .map((seed, i) =>
+      isValid(seed) ? '' : `[${i}] should be a multiserver address`,
+    )
+    .filter(Boolean);
+}
+
+function validatePingTimeout(ping: any): string[] {
+  if (ping === undefined || ping === null) return [];
+  if (!(typeof ping === 'number' && ping >= 0)) return ['should be a duration'];
+  return [];
+}
+
+/**
+ * Levenshtein distance, to suggest the option that was probably meant
+ */
+function distance(a: string, b: string) {
+  const row = Array.from({length: b.length + 1}, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const next = row[j];
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + cost);
+      prev = next;
+    }
+  }
+  return row[b.length];
+}
+
+function suggest(name: string, known: Array<string>) {
+  const lower = name.toLowerCase();
+  const best = known
+    .map(k => [k, distance(lower, k.toLowerCase())] as [string, number])
+    .sort((a, b) => a[1] - b[1])[0];
+  return best && best[1] <= 2 ? `, did you mean "${best[0]}"?` : '';
+}
+
+function join(where: string, message: string) {
+  if (message.startsWith('[')) return where + message;
+  if (message.startsWith(' ')) return where + message;
+  if (message.startsWith('should ')) return where + ' ' + message;
+  return where + '.' + message;
+}
+
+function checkSection(
+  where: string,
+  value: any,
+  section: Section,
+  problems: ConfigProblems,
+) {
+  if (value === undefined || section.any) return;
+  if (section.validate) {
+    for (const error of section.validate(value)) {
+      problems.errors.push(join(where, error));
+    }
+    return;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    problems.errors.push(where + ' should be an object');
+    return;
+  }
+  const children = section.children || {};
+  const known = Object.keys(children);
+  for (const name of Object.keys(value)) {
+    if (!(name in children)) {
+      problems.warnings.push(
+        `${where}.${name} is not a known option${suggest(name, known)}`,
+      );
+      continue;
+    }
+    checkSection(`${where}.${name}`, value[name], children[name], problems);
+  }
+}
+
+/**
+ * Checks every option that CONN and ConnScheduler read. Errors are options
+ * that cannot be used, warnings are options that are ignored.
+ */
+export function validateConfig(config: any): ConfigProblems {
+  const problems: ConfigProblems = {errors: [], warnings: []};
+  if (!config || typeof config !== 'object') return problems;
+  checkSection('config.conn', config.conn, CONN_SECTION, problems);
+  checkSection('config.gossip', config.gossip, GOSSIP_SECTION, problems);
+  if (config.timers && typeof config.timers === 'object') {
+    const ping = config.timers.ping;
+    for (const error of validatePingTimeout(ping)) {
+      problems.errors.push(join('config.timers.ping', error));
+    }
+    if (typeof ping === 'number' && ping >= 0) {
+      const clamped = clampPingTimeout(ping);
+      if (clamped !== ping) {
+        problems.warnings.push(
+          `config.timers.ping is limited to ${clamped}ms ` +
+            `(between ${PING_TIMEOUT.min} and ${PING_TIMEOUT.max})`,
+        );
+      }
+    }
+  }
+  for (const error of validateSeeds(config.seeds)) {
+    problems.errors.push(join('config.seeds', error));
+  }
+  const idleError = checkMaxIdle(config.conn);
+  if (idleError) problems.errors.push(idleError);
+  if (config.gossip && typeof config.gossip === 'object') {
+    for (const name of ['seed', 'pub', 'autoPopulate']) {
+      if (config.gossip[name] === '') {
+        problems.warnings.push(
+          `config.gossip.${name} is an empty string, using the default`,
+        );
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Ping samples are the only activity that CONN itself records, so a shorter
+ * `maxIdle` than the ping timeout would rotate out every peer
+ */
+function checkMaxIdle(conn: any): string | null {
+  if (!conn || typeof conn !== 'object') return null;
+  const rotation = conn.rotation || {};
+  const latency = conn.latency || {};
+  const maxIdle = rotation.maxIdle;
+  if (!(typeof maxIdle === 'number' && maxIdle > 0)) return null;
+  const pingTimeout =
+    typeof latency.pingTimeout === 'number'
+      ? latency.pingTimeout
+      : DEFAULT_LATENCY_CONFIG.pingTimeout;
+  if (maxIdle > pingTimeout) return null;
+  return (
+    'config.conn.rotation.maxIdle should be 0 or longer than ' +
+    `config.conn.latency.pingTimeout (${pingTimeout}ms)`
+  );
+}
+
+function clampPingTimeout(ping: number) {
+  return Math.max(PING_TIMEOUT.min, Math.min(ping, PING_TIMEOUT.max));
+}
+
+function gossipFlag(gossip: any, name: string) {
+  if (!gossip || gossip[name] === undefined || gossip[name] === '') return true;
+  return gossip[name] !== false;
+}
+
+/**
+ * Applies the defaults to a valid config
+ */
+export function resolveConfig(config: any): Omit<ResolvedConfig, 'warnings'> {
+  const conn = config.conn || {};
+  const scheduler = conn.scheduler || {};
+  const timers = config.timers || {};
+  const seeds = config.seeds;
+  const metrics = conn.metrics;
+  let transports = conn.transports ? conn.transports.slice() : null;
+  // In tor-only mode, only onion addresses are allowed
+  if (conn.privacy === 'tor-only') transports = ['onion'];
+  const probe = {
+    ...DEFAULT_PROBE_CONFIG,
+    ...(conn.probe === false ? {interval: 0} : conn.probe),
+  };
+  return {
+    path: path.dirname(storagePath(config, 'conn.json')),
+    conn: {
+      // Without a `conn` section, CONN waits for someone to call start()
+      autostart: !!config.conn && conn.autostart !== false,
+      privacy: conn.privacy || null,
+      allowlist: conn.allowlist ? conn.allowlist.slice() : null,
+      transports,
+      scoring: {
+        weights: {...DEFAULT_WEIGHTS, ...(conn.scoring || {}).weights},
+        customScorer: typeof (conn.scoring || {}).scorer === 'function',
+      },
+      history: {...DEFAULT_HISTORY_CONFIG, ...conn.history},
+      staging: {
+        ...DEFAULT_STAGING_CONFIG,
+        ...conn.staging,
+        ttl: {...DEFAULT_STAGING_CONFIG.ttl, ...(conn.staging || {}).ttl},
+      },
+      gc: {...DEFAULT_GC_CONFIG, ...conn.gc},
+      latency: {...DEFAULT_LATENCY_CONFIG, ...conn.latency},
+      probe: {
+        interval: probe.interval,
+        timeout: probe.timeout,
+        batch: probe.batch,
+        minFailures: probe.minFailures,
+      },
+      rotation: {
+        ...DEFAULT_ROTATION_CONFIG,
+        ...conn.rotation,
+        maxLifetime: {
+          ...DEFAULT_ROTATION_CONFIG.maxLifetime,
+          ...(conn.rotation || {}).maxLifetime,
+        },
+      },
+      pubs: {...DEFAULT_PUB_CONFIG, ...conn.pubs},
+      watchdog: {...DEFAULT_WATCHDOG_CONFIG, ...conn.watchdog},
+      metrics:
+        metrics && metrics.port
+          ? {port: metrics.port, host: metrics.host || '127.0.0.1'}
+          : null,
+      scheduler: {
+        rules: (scheduler.rules || DEFAULT_RULES).slice(),
+        latency: scheduler.latency
+          ? {minSamples: 5, ...scheduler.latency}
+          : null,
+        interval: scheduler.interval || DEFAULT_SCHEDULER_INTERVAL,
+      },
+    },
+    gossip: {
+      seed: gossipFlag(config.gossip, 'seed'),
+      pub: gossipFlag(config.gossip, 'pub'),
+      autoPopulate: gossipFlag(config.gossip, 'autoPopulate'),
+    },
+    timers: {ping: clampPingTimeout(timers.ping || PING_TIMEOUT.default)},
+    seeds: (Array.isArray(seeds) ? seeds : [seeds]).filter(Boolean),
+  };
+}
+
+function isPlainObject(x: any) {
+  if (!x || typeof x !== 'object' || Array.isArray(x)) return false;
+  const proto = Object.getPrototypeOf(x);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Returns a copy of `config` where the options in `partial` replace the
+ * original ones, merging nested objects but not arrays
+ */
+export function mergeConfig(config: any, partial: any): any {
+  if (!isPlainObject(config) || !isPlainObject(partial)) return partial;
+  const merged = {...config};
+  for (const name of Object.keys(partial)) {
+    merged[name] =
+      partial[name] === undefined
+        ? config[name]
+        : mergeConfig(config[name], partial[name]);
+  }
+  return merged;
+}
+
+// Both CONN and ConnScheduler load the same config object
+const warned = new WeakSet<object>();
+
+/**
+ * Validates the config, throwing one error listing every invalid option and
+ * logging the warnings once, then applies the defaults.
+ */
+export function loadConfig(config: any): ResolvedConfig {
+  const {errors, warnings} = validateConfig(config);
+  if (errors.length > 0) {
+    throw new Error('Invalid config:\n  - ' + errors.join('\n  - '));
+  }
+  if (warnings.length > 0 && !warned.has(config)) {
+    warned.add(config);
+    debug('config warnings:\n  - ' + warnings.join('\n  - '));
+  }
+  return {...resolveConfig(config), warnings};
+}
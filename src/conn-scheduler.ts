@@ -6,53 +6,62 @@ import {Discovery as LANDiscovery} from 'ssb-lan/lib/types';
 import {Msg, FeedId} from 'ssb-typescript';
 import {plugin, muxrpc} from 'secret-stack-decorators';
 import {CONN} from './conn';
+import {
+  loadRules,
+  compileRule,
+  withPinnedRule,
+  CompiledRule,
+  Rule,
+} from './scheduler-rules';
+import {
+  DecisionLog,
+  Decision,
+  DecisionReason,
+  ExclusionReason,
+} from './decisions';
+import {createEnvironment, Environment} from './environment';
+import {
+  exceedsLatencyLimits,
+  loadLatencyLimits,
+  LatencyLimits,
+  LatencySummary,
+} from './latency';
+import {RotationPolicy} from './rotation';
+import {PubRanking, isDiscoveredPub} from './pubs';
+import {ConnWatchdog} from './watchdog';
+import {loadConfig, mergeConfig, ResolvedConfig} from './config';
+import {JsonFile, storagePath} from './json-file';
+import {
+  DiscoveryToggles,
+  DiscoveryKind,
+  kindOf,
+  toDiscoveryKind,
+} from './toggles';
 const pull = require('pull-stream');
-const Pausable = require('pull-pause');
 const ip = require('ip');
-const onWakeup = require('on-wakeup');
-const onNetwork = require('on-change-network');
-const hasNetwork = require('has-network');
 const Ref = require('ssb-ref');
 const debug = require('debug')('ssb:conn:scheduler');
 require('zii');
 
-let lastCheck = 0;
-let lastValue: any = null;
-function hasNetworkDebounced() {
-  if (lastCheck + 1e3 < Date.now()) {
-    lastCheck = Date.now();
-    lastValue = hasNetwork();
-  }
-  return lastValue;
-}
-
 //detect if not connected to wifi or other network
 //(i.e. if there is only localhost)
-function isOffline(p: Peer) {
+function isOffline(p: Peer, env: Environment) {
   if (ip.isLoopback(p[1].host) || p[1].host == 'localhost') return false;
-  else return !hasNetworkDebounced();
+  else return !env.hasNetwork();
 }
 
-const canBeConnected = (p: Peer) => !isOffline(p);
-
 function isLocal(p: Peer): boolean {
   // don't rely on private ip address, because
   // cjdns creates fake private ip addresses.
   // ignore localhost addresses, because sometimes they get broadcast.
   return (
+    !!p[1].host &&
     !ip.isLoopback(p[1].host) &&
     ip.isPrivate(p[1].host) &&
     (p[1].source === 'local' || p[1].type === 'lan')
   );
 }
 
-//peers which we can connect to, but are not upgraded.
-//select peers which we can connect to, but are not upgraded to LT.
-//assume any peer is legacy, until we know otherwise...
-function isLegacy(peer: Peer): boolean {
-  return hasSuccessfulAttempts(peer) && !hasPinged(peer);
-}
-
 function take(n: number) {
   return <T>(arr: Array<T>) => arr.slice(0, Math.max(n, 0));
 }
@@ -60,15 +69,12 @@ function take(n: number) {
 const {
   passesExpBackoff,
   passesGroupDebounce,
-  hasNoAttempts,
-  hasOnlyFailedAttempts,
   hasPinged,
-  hasSuccessfulAttempts,
   sortByStateChange,
 } = ConnQuery;
 
-function shufflePeers(peers: Array<Peer>) {
-  return peers.sort(() => Math.random() - 0.5);
+function isPinned(p: Peer): boolean {
+  return p[1].pinned === true;
 }
 
 function neverJustOne(x: number) {
@@ -76,39 +82,111 @@ function neverJustOne(x: number) {
   else return x;
 }
 
-const minute = 60e3;
-const hour = 60 * 60e3;
-
 type BTPeer = {remoteAddress: string; id: string; displayName: string};
 
+/**
+ * The options that reconfigure() can change, others require a restart
+ */
+const RECONFIGURABLE: Record<string, Array<string> | true> = {
+  conn: ['scheduler', 'rotation', 'pubs'],
+  gossip: true,
+  seeds: true,
+};
+
+function checkReconfigurable(partial: any) {
+  if (!partial || typeof partial !== 'object' || Array.isArray(partial)) {
+    throw new Error('reconfigure() expects an object with config options');
+  }
+  const errors: Array<string> = [];
+  for (const name of Object.keys(partial)) {
+    const allowed = RECONFIGURABLE[name];
+    if (!allowed) {
+      errors.push(`config.${name} cannot be changed at runtime`);
+    } else if (allowed !== true && partial[name]) {
+      for (const child of Object.keys(partial[name])) {
+        if (allowed.indexOf(child) < 0) {
+          errors.push(`config.${name}.${child} cannot be changed at runtime`);
+        }
+      }
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error('Cannot reconfigure:\n  - ' + errors.join('\n  - '));
+  }
+}
+
 @plugin('1.0.0')
 export class ConnScheduler {
   private readonly ssb: {conn: CONN; [name: string]: any};
-  private readonly config: any;
+  private resolvedConfig: ResolvedConfig;
+  private rawConfig: any;
   private readonly hasSsbDb: boolean;
   private closed: boolean;
   private isLoadingHops: boolean;
   private lastMessageAt: number;
   private hasScheduledAnUpdate: boolean;
+  private scheduledUpdate: any;
+  private interval: any;
+  /**
+   * Functions that undo what start() set up, such as streams and listeners
+   */
+  private teardowns: Array<() => void>;
   private hops: Record<FeedId, number>;
+  private rules: Array<CompiledRule>;
+  private readonly decisionLog: DecisionLog;
+  private readonly env: Environment;
+  private latencyLimits: LatencyLimits | null;
+  private rotation: RotationPolicy;
+  private pubs: PubRanking;
+  private readonly toggles: DiscoveryToggles;
+  private readonly watchdog: ConnWatchdog;
 
   constructor(ssb: any, config: any) {
     this.ssb = ssb;
-    this.config = config;
+    this.resolvedConfig = loadConfig(config);
+    this.rawConfig = config;
+    this.env = createEnvironment(config);
+    this.rules = withPinnedRule(loadRules(config)).map(rule =>
+      compileRule(rule, key => this.hops[key]),
+    );
     this.hasSsbDb = !!this.ssb.post && !!this.ssb.messagesByType;
     this.closed = true;
     this.lastMessageAt = 0;
     this.hasScheduledAnUpdate = false;
+    this.scheduledUpdate = null;
+    this.interval = null;
+    this.teardowns = [];
     this.isLoadingHops = false;
     this.hops = {};
+    this.decisionLog = new DecisionLog(this.env.now);
+    this.latencyLimits = loadLatencyLimits(config);
+    this.rotation = new RotationPolicy(config.conn && config.conn.rotation);
+    this.pubs = new PubRanking(config.conn && config.conn.pubs);
+    this.toggles = new DiscoveryToggles(
+      new JsonFile(storagePath(config, 'conn-toggles.json')),
+      {
+        lan: true,
+        pub: this.resolvedConfig.gossip.pub,
+        seed: this.resolvedConfig.gossip.seed,
+        bt: true,
+      },
+    );
+    this.watchdog = new ConnWatchdog(
+      this.ssb.conn.hub(),
+      this.env,
+      () => (this.hasSsbDb ? this.lastMessageAt : null),
+      config.conn && config.conn.watchdog,
+    );
 
     if (this.hasSsbDb) {
       this.ssb.post((msg: Msg) => {
         if (msg.value.author != this.ssb.id) {
-          this.lastMessageAt = Date.now();
+          this.lastMessageAt = this.env.now();
         }
         if (msg.value.content && msg.value.content.type === 'contact') {
-          this.loadHops(() => this.updateNow());
+          this.loadHops(() => {
+            if (!this.closed) this.updateNow();
+          });
         }
       });
     }
@@ -117,6 +195,7 @@ export class ConnScheduler {
   private loadHops(doneCallback?: () => void) {
     if (!this.ssb.friends || !this.ssb.friends.hops) {
       debug('Warning: ssb-friends is missing, scheduling will miss some info');
+      if (doneCallback) doneCallback();
       return;
     }
 
@@ -127,41 +206,112 @@ export class ConnScheduler {
         return;
       }
       this.hops = hops;
+      this.ssb.conn.query().setHops(hops);
       this.isLoadingHops = false;
       if (doneCallback) doneCallback();
     });
   }
 
-  // Utility to pick from config, with some defaults
-  private conf(name: any, def: any) {
-    if (this.config.gossip == null) return def;
-    const value = this.config.gossip[name];
-    return value == null || value === '' ? def : value;
-  }
-
   private isCurrentlyDownloading() {
     // don't schedule new connections if currently downloading messages
-    return this.lastMessageAt && this.lastMessageAt > Date.now() - 500;
+    return this.lastMessageAt && this.lastMessageAt > this.env.now() - 500;
   }
 
+  private canBeConnected = (p: Peer) => !isOffline(p, this.env);
+
   private weBlockThem = ([_addr, data]: [string, {key?: string}]) => {
     if (!data || !data.key) return false;
     return this.hops[data.key] === -1;
   };
 
+  private weBanThem = ([addr, data]: [string, {key?: string}]) =>
+    this.ssb.conn.isBanned(addr, data && data.key);
+
+  private weDontAllowThem = ([addr, data]: [string, {key?: string}]) =>
+    !this.ssb.conn.isAllowed(addr, data && data.key);
+
+  private isDisabled = (peer: Peer) => {
+    const kind = kindOf(peer);
+    return !!kind && !this.toggles.isEnabled(kind);
+  };
+
+  private probedUnreachable = ([addr, data]: Peer) =>
+    this.ssb.conn.prober().isUnreachable(addr, data.stateChange);
+
   private weFollowThem = ([_addr, data]: [string, {key?: string}]) => {
     if (!data || !data.key) return false;
     const h = this.hops[data.key];
     return h > 0 && h <= 1;
   };
 
+  /**
+   * The latest ping sample, or traffic reported as `lastActivity` in ConnHub
+   */
+  private lastActivity([addr, data]: Peer) {
+    let latest = data.latency ? data.latency.updated : 0;
+    for (const [address, hubData] of this.ssb.conn.hub().entries()) {
+      if (address !== addr) continue;
+      const lastActivity: number | undefined = hubData.lastActivity;
+      const latency: LatencySummary | undefined = hubData.latency;
+      if (lastActivity) latest = Math.max(latest, lastActivity);
+      if (latency) latest = Math.max(latest, latency.updated);
+    }
+    return latest;
+  }
+
+  private isRuleActive(rule: Rule) {
+    if (rule.match.source === 'seed' && !this.toggles.isEnabled('seed')) {
+      return false;
+    }
+    if (rule.onlyWhenIsolated) {
+      return this.ssb.conn.query().peersInConnection().length === 0;
+    }
+    return true;
+  }
+
+  private decide(
+    action: Decision['action'],
+    peer: Peer,
+    reason: DecisionReason,
+    rule?: string,
+  ) {
+    const decision = this.decisionLog.decide(action, peer, reason, rule);
+    this.ssb.conn.eventBus().emit({
+      type: 'scheduler:decision',
+      address: decision.address,
+      key: decision.key,
+      timestamp: decision.timestamp,
+      decision,
+    });
+  }
+
+  private connect(peer: Peer, reason: DecisionReason, rule?: string) {
+    this.decide('connect', peer, reason, rule);
+    this.ssb.conn.connect(peer[0], peer[1]);
+  }
+
+  private disconnect(peer: Peer, reason: DecisionReason, rule?: string) {
+    this.decide('disconnect', peer, reason, rule);
+    this.ssb.conn.disconnect(peer[0]);
+  }
+
   // Utility to connect to bunch of peers, or disconnect if over quota
-  // opts: { quota, backoffStep, backoffMax, groupMin }
-  private updateTheseConnections(test: (p: Peer) => boolean, opts: any) {
+  private updateTheseConnections(rule: CompiledRule) {
     const query = this.ssb.conn.query();
-    const peersUp = query.peersInConnection().filter(test);
-    const peersDown = query.peersConnectable('db').filter(test);
-    const {quota, backoffStep, backoffMax, groupMin} = opts;
+    const now = this.env.now();
+    const peersUp = query.peersInConnection().filter(rule.test);
+    const keysUp = new Set(
+      query
+        .peersInConnection()
+        .map(([, data]: Peer) => data.key)
+        .filter(Boolean),
+    );
+    // Each feed is one candidate, no matter how many addresses it has
+    const connectable: Array<Peer> = query.peersConnectable('db');
+    const byAddress = new Map<string, Peer>();
+    for (const peer of connectable) byAddress.set(peer[0], peer);
+    const peersDown = query.groupByKey(connectable, now).filter(rule.test);
+    const {quota, backoffStep, backoffMax, groupMin} = rule;
     const excess = peersUp.length > quota * 2 ? peersUp.length - quota : 0;
     const freeSlots = neverJustOne(Math.max(quota - peersUp.length, 0));
 
@@ -169,157 +319,272 @@ export class ConnScheduler {
     peersUp
       .z(sortByStateChange)
       .z(take(excess))
-      .forEach(([addr]) => this.ssb.conn.disconnect(addr));
-
-    // Connect to suitable candidates
-    peersDown
-      .filter(p => !this.weBlockThem(p))
-      .filter(canBeConnected)
-      .filter(([, data]) => data.autoconnect !== false)
-      .z(passesGroupDebounce(groupMin))
-      .filter(passesExpBackoff(backoffStep, backoffMax))
-      .z(peers =>
-        // with 30% chance, ignore 'bestness' and just choose randomly
-        Math.random() <= 0.3
-          ? peers.z(shufflePeers)
-          : peers.z(sortByStateChange),
-      )
-      .z(take(freeSlots))
-      .forEach(([addr, data]) => this.ssb.conn.connect(addr, data));
+      .forEach(peer => this.disconnect(peer, 'excess-quota', rule.name));
+
+    // Connect to suitable candidates, remembering why others were excluded
+    type Filter = [ExclusionReason, (peers: Array<Peer>) => Array<Peer>];
+    const filters: Array<Filter> = [
+      [
+        'key-in-connection',
+        peers => peers.filter(([, data]) => !keysUp.has(data.key)),
+      ],
+      [
+        'transport-not-allowed',
+        peers => peers.filter(p => query.transports.isAllowed(p[0], p[1])),
+      ],
+      ['blocked', peers => peers.filter(p => !this.weBlockThem(p))],
+      ['banned', peers => peers.filter(p => !this.weBanThem(p))],
+      ['not-allowed', peers => peers.filter(p => !this.weDontAllowThem(p))],
+      [
+        'disabled',
+        peers => peers.filter(p => isPinned(p) || !this.isDisabled(p)),
+      ],
+      ['offline', peers => peers.filter(this.canBeConnected)],
+      [
+        'unreachable',
+        peers => peers.filter(p => isPinned(p) || !this.probedUnreachable(p)),
+      ],
+      [
+        'autoconnect-false',
+        peers =>
+          peers.filter(p => isPinned(p) || p[1].autoconnect !== false),
+      ],
+      ['group-debounce', passesGroupDebounce(groupMin, now)],
+      [
+        'exp-backoff',
+        peers => peers.filter(passesExpBackoff(backoffStep, backoffMax, now)),
+      ],
+      [
+        'no-free-slots',
+        peers => take(freeSlots)(query.sortByScore(peers, now)),
+      ],
+    ];
+    let candidates = peersDown;
+    for (const [reason, filter] of filters) {
+      const passed = filter(candidates);
+      const passedSet = new Set(passed);
+      for (const peer of candidates) {
+        if (!passedSet.has(peer)) {
+          this.decisionLog.consider(peer, rule.name, reason);
+        }
+      }
+      candidates = passed;
+    }
+    for (const peer of candidates) {
+      this.decisionLog.consider(peer, rule.name);
+      this.connect(byAddress.get(peer[0]) || peer, 'below-quota', rule.name);
+    }
   }
 
   private updateStagingNow() {
-    // Stage all db peers with autoconnect=false
+    const now = this.env.now();
+
+    // Stage all db peers with autoconnect=false, except discovered pubs
     this.ssb.conn
       .query()
       .peersConnectable('db')
       .filter(p => !this.weBlockThem(p))
+      .filter(p => !this.weBanThem(p))
+      .filter(p => !this.weDontAllowThem(p))
+      .filter(p => !this.probedUnreachable(p))
+      .filter(p => !this.isDisabled(p))
       .filter(([, data]) => data.autoconnect === false)
+      .filter(p => !isDiscoveredPub(p))
       .forEach(([addr, data]) => this.ssb.conn.stage(addr, data));
 
-    // Purge staged peers that are now blocked
+    // Keep only the best (three) discovered pubs staged
+    this.updateStagedPubs();
+
+    // Purge staged peers that are now blocked, banned or not allowed
     this.ssb.conn
       .query()
       .peersConnectable('staging')
-      .filter(this.weBlockThem)
+      .filter(
+        p =>
+          this.weBlockThem(p) || this.weBanThem(p) || this.weDontAllowThem(p),
+      )
+      .forEach(([addr]) => this.ssb.conn.unstage(addr));
+
+    // Purge staged peers whose kind of discovery is disabled
+    this.ssb.conn
+      .query()
+      .peersConnectable('staging')
+      .filter(this.isDisabled)
       .forEach(([addr]) => this.ssb.conn.unstage(addr));
 
-    // Purge some old staged LAN peers
+    // Purge staged peers that a probe found to be unreachable
     this.ssb.conn
       .query()
       .peersConnectable('staging')
-      .filter(([, data]) => data.type === 'lan')
-      .filter(([, data]) => data.stagingUpdated! + 10e3 < Date.now())
+      .filter(this.probedUnreachable)
       .forEach(([addr]) => this.ssb.conn.unstage(addr));
 
-    // Purge some old staged Bluetooth peers
+    // Purge staged peers that outlived the TTL of their type
+    const store = this.ssb.conn.stagingStore();
     this.ssb.conn
       .query()
       .peersConnectable('staging')
-      .filter(([, data]) => data.type === 'bt')
-      .filter(([, data]) => data.stagingUpdated! + 30e3 < Date.now())
+      .filter(peer => store.isExpired(peer, now))
       .forEach(([addr]) => this.ssb.conn.unstage(addr));
   }
 
-  private updateHubNow() {
-    if (this.conf('seed', true)) {
-      this.updateTheseConnections(p => p[1].source === 'seed', {
-        quota: 3,
-        backoffStep: 2e3,
-        backoffMax: 10 * minute,
-        groupMin: 1e3,
+  private updateStagedPubs() {
+    const query = this.ssb.conn.query();
+    const discovered: Array<Peer> = query
+      .peersConnectable('db')
+      .filter(isDiscoveredPub);
+
+    // Gradually forget pubs that never responded
+    discovered
+      .filter(p => this.pubs.isDead(p))
+      .z(take(this.pubs.config.pruneBatch))
+      .forEach(([addr]) => {
+        debug('Forgetting pub %s because it never responded', addr);
+        this.ssb.conn.unstage(addr);
+        this.ssb.conn.forget(addr);
       });
-    }
 
-    // If there are no peers, then try *any* connection ASAP
-    if (this.ssb.conn.query().peersInConnection().length === 0) {
-      this.updateTheseConnections(() => true, {
-        quota: 1,
-        backoffStep: 1e3,
-        backoffMax: 6e3,
-        groupMin: 0,
-      });
+    const ranked = this.pubs.rank(
+      discovered
+        .filter(p => query.transports.isAllowed(p[0], p[1]))
+        .filter(p => !this.weBlockThem(p))
+        .filter(p => !this.weBanThem(p))
+        .filter(p => !this.weDontAllowThem(p))
+        .filter(p => !this.isDisabled(p))
+        .filter(p => !this.probedUnreachable(p)),
+      key => this.hops[key],
+    );
+    const best = new Set<string>();
+    for (const [addr, data] of ranked) {
+      if (best.size >= this.pubs.config.maxStaged) break;
+      // Staging may be refused, e.g. if the user rejected this pub
+      this.ssb.conn.stage(addr, data);
+      if (this.ssb.conn.staging().get(addr)) best.add(addr);
     }
 
-    // Connect to rooms, up to 10 of them, prioritized over pubs
-    this.updateTheseConnections(p => p[1].type === 'room', {
-      quota: 10,
-      backoffStep: 5e3,
-      backoffMax: 5 * minute,
-      groupMin: 5e3,
-    });
-
-    this.updateTheseConnections(hasPinged, {
-      quota: 2,
-      backoffStep: 10e3,
-      backoffMax: 10 * minute,
-      groupMin: 5e3,
-    });
-
-    this.updateTheseConnections(hasNoAttempts, {
-      quota: 2,
-      backoffStep: 30e3,
-      backoffMax: 30 * minute,
-      groupMin: 15e3,
-    });
+    // Unstage the discovered pubs that were outranked
+    for (const [addr] of this.ssb.conn.staging().entries()) {
+      const data = this.ssb.conn.db().get(addr);
+      if (best.has(addr) || !data) continue;
+      if (isDiscoveredPub([addr, data])) this.ssb.conn.unstage(addr);
+    }
+  }
 
-    this.updateTheseConnections(hasOnlyFailedAttempts, {
-      quota: 3,
-      backoffStep: 1 * minute,
-      backoffMax: 3 * hour,
-      groupMin: 5 * minute,
-    });
+  private updateHubNow() {
+    const now = this.env.now();
 
-    this.updateTheseConnections(isLegacy, {
-      quota: 1,
-      backoffStep: 4 * minute,
-      backoffMax: 3 * hour,
-      groupMin: 5 * minute,
-    });
+    for (const rule of this.rules) {
+      if (this.isRuleActive(rule)) this.updateTheseConnections(rule);
+    }
 
     // Automatically connect to (five) staged peers we follow
+    const keysUp = new Set(
+      this.ssb.conn
+        .query()
+        .peersInConnection()
+        .map(([, data]: Peer) => data.key)
+        .filter(Boolean),
+    );
     this.ssb.conn
       .query()
       .peersConnectable('staging')
       .filter(this.weFollowThem)
+      .filter(([, data]: Peer) => !keysUp.has(data.key))
       .z(take(5))
-      .forEach(([addr, data]) => this.ssb.conn.connect(addr, data));
+      .forEach(peer => this.connect(peer, 'followed-staged'));
 
     // Purge connected peers that are now blocked
     this.ssb.conn
       .query()
       .peersInConnection()
       .filter(this.weBlockThem)
-      .forEach(([addr]) => this.ssb.conn.disconnect(addr));
+      .forEach(peer => this.disconnect(peer, 'blocked'));
+
+    // Purge connected peers that are now banned
+    this.ssb.conn
+      .query()
+      .peersInConnection()
+      .filter(this.weBanThem)
+      .forEach(peer => this.disconnect(peer, 'banned'));
+
+    // Purge connected peers that are not allowed
+    this.ssb.conn
+      .query()
+      .peersInConnection()
+      .filter(this.weDontAllowThem)
+      .forEach(peer => this.disconnect(peer, 'not-allowed'));
+
+    // Pinned peers are only dropped for being blocked, banned or not allowed
+
+    // Purge connection attempts to feeds already connected via other addresses
+    const keysConnected = new Set(
+      this.ssb.conn
+        .query()
+        .peersConnected()
+        .map(([, data]: Peer) => data.key)
+        .filter(Boolean),
+    );
+    this.ssb.conn
+      .query()
+      .peersConnecting()
+      .filter(([, data]: Peer) => keysConnected.has(data.key))
+      .filter(peer => !isPinned(peer))
+      .forEach(peer => this.disconnect(peer, 'duplicate-key'));
 
     // Purge some ongoing frustrating connection attempts
     this.ssb.conn
       .query()
       .peersInConnection()
+      .filter(peer => !isPinned(peer))
       .filter(peer => {
         const permanent = hasPinged(peer) || isLocal(peer);
         const state = this.ssb.conn.hub().getState(peer[0]);
         return !permanent || state === 'connecting';
       })
-      .filter(peer => peer[1].stateChange! + 10e3 < Date.now())
-      .forEach(([addr]) => this.ssb.conn.disconnect(addr));
+      .filter(peer => peer[1].stateChange! + 10e3 < now)
+      .forEach(peer => {
+        const state = this.ssb.conn.hub().getState(peer[0]);
+        const reason = state === 'connecting' ? 'stuck-connecting' : 'unpinged';
+        this.disconnect(peer, reason);
+      });
 
-    // Purge an internet connection after it has been up for 1h
-    this.ssb.conn
-      .query()
-      .peersConnected()
-      .filter(peer => peer[1].type !== 'bt' && peer[1].type !== 'lan')
-      .filter(peer => peer[1].stateChange! + 1 * hour < Date.now())
-      .forEach(([addr]) => this.ssb.conn.disconnect(addr));
+    // Rotate out connections whose latency or clock skew stays too high
+    const limits = this.latencyLimits;
+    if (limits) {
+      this.ssb.conn
+        .query()
+        .peersConnected()
+        .filter(peer => !isPinned(peer))
+        .filter(([, data]: Peer) => exceedsLatencyLimits(data.latency, limits))
+        .forEach(peer => this.disconnect(peer, 'high-latency'));
+    }
+
+    // Rotate out connections that are too old or idle
+    for (const peer of this.ssb.conn.query().peersConnected()) {
+      if (isPinned(peer)) continue;
+      const reason = this.rotation.check(peer, now, this.lastActivity(peer));
+      if (reason) this.disconnect(peer, reason);
+    }
   }
 
   private updateNow() {
-    if (this.hasSsbDb && !this.ssb.ready()) return;
-    if (this.isCurrentlyDownloading()) return;
-    if (this.isLoadingHops) return;
+    const now = this.env.now();
+    this.watchdog.check();
+    if (this.hasSsbDb && !this.ssb.ready()) {
+      return this.decisionLog.skipTick(now, 'not-ready');
+    }
+    if (this.isCurrentlyDownloading()) {
+      return this.decisionLog.skipTick(now, 'downloading');
+    }
+    if (this.isLoadingHops) {
+      return this.decisionLog.skipTick(now, 'loading-hops');
+    }
 
+    this.decisionLog.beginTick(now);
     this.updateStagingNow();
     this.updateHubNow();
+    this.decisionLog.endTick();
+    this.ssb.conn.metrics().recordTick(this.env.now() - now);
   }
 
   private updateSoon(period: number = 1000) {
@@ -327,20 +592,33 @@ export class ConnScheduler {
     if (this.hasScheduledAnUpdate) return;
 
     // Add some time randomization to avoid deadlocks with remote peers
-    const fuzzyPeriod = period * 0.5 + period * Math.random();
+    const fuzzyPeriod = period * 0.5 + period * this.env.random();
     this.hasScheduledAnUpdate = true;
-    const timer = setTimeout(() => {
+    this.scheduledUpdate = this.env.setTimeout(() => {
+      this.scheduledUpdate = null;
       this.updateNow();
       this.hasScheduledAnUpdate = false;
     }, fuzzyPeriod);
-    if (timer.unref) timer.unref();
+    if (this.scheduledUpdate.unref) this.scheduledUpdate.unref();
+  }
+
+  private setupInterval() {
+    if (this.interval) this.env.clearInterval(this.interval);
+    this.interval = this.env.setInterval(
+      () => this.updateSoon(),
+      this.resolvedConfig.conn.scheduler.interval,
+    );
+    if (this.interval.unref) this.interval.unref();
   }
 
   private populateWithSeeds() {
+    if (!this.toggles.isEnabled('seed')) return;
+
     // Populate gossip table with configured seeds (mainly used in testing)
-    const seeds = this.config.seeds;
-    (Array.isArray(seeds) ? seeds : [seeds]).filter(Boolean).forEach(addr => {
+    this.resolvedConfig.seeds.forEach(addr => {
       const key = Ref.getKeyFromAddress(addr);
+      if (this.weBanThem([addr, {key}])) return;
+      if (this.weDontAllowThem([addr, {key}])) return;
       this.ssb.conn.remember(addr, {key, source: 'seed'});
     });
   }
@@ -351,62 +629,76 @@ export class ConnScheduler {
       return;
     }
 
-    if (this.config.gossip && this.config.gossip.pub === false) return;
-    if (this.config.gossip && this.config.gossip.autoPopulate === false) return;
-
-    setTimeout(() => {
-      type PubContent = {address?: string};
-      const MAX_STAGED_PUBS = 3;
-      const pausable = Pausable();
+    type PubContent = {address?: string};
+    const drain = pull.drain(({value: msg, timestamp}: Msg<PubContent>) => {
+      const store = this.ssb.conn.stagingStore();
+      // So that we continue from here after a restart
+      store.advanceCursor(timestamp);
+      try {
+        const address = Ref.toMultiServerAddress(msg.content.address!);
+        const key = Ref.getKeyFromAddress(address);
+        const peer: [string, {key?: string}] = [address, {key}];
+        if (this.weBlockThem(peer) || this.weBanThem(peer)) {
+          this.ssb.conn.forget(address);
+        } else if (this.weDontAllowThem(peer)) {
+          return;
+        } else if (!this.ssb.conn.db().has(address)) {
+          // The best of these will be staged by updateStagedPubs
+          this.ssb.conn.remember(address, {
+            key,
+            type: 'pub',
+            autoconnect: false,
+            announcer: msg.author,
+          });
+          this.updateSoon();
+        }
+      } catch (err) {
+        debug('cannot process discovered pub because: %s', err);
+      }
+    });
 
+    const timer = this.env.setTimeout(() => {
+      const cursor = this.ssb.conn.stagingStore().cursor;
       pull(
-        this.ssb.messagesByType({type: 'pub', live: true, keys: false}),
+        this.ssb.messagesByType({
+          type: 'pub',
+          live: true,
+          keys: true,
+          ...(cursor === undefined ? {} : {gt: cursor}),
+        }),
         pull.filter((msg: any) => !msg.sync),
         // Don't drain that fast, so to give other DB draining tasks priority
-        pull.asyncMap((x: any, cb: any) => setTimeout(() => cb(null, x), 250)),
+        pull.asyncMap((x: any, cb: any) =>
+          this.env.setTimeout(() => cb(null, x), 250),
+        ),
         pull.filter(
-          (msg: Msg<PubContent>['value']) =>
+          ({value: msg}: Msg<PubContent>) =>
             msg.content &&
             msg.content.address &&
             Ref.isAddress(msg.content.address),
         ),
-        pausable,
-        pull.drain((msg: Msg<PubContent>['value']) => {
-          try {
-            const address = Ref.toMultiServerAddress(msg.content.address!);
-            const key = Ref.getKeyFromAddress(address);
-            if (this.weBlockThem([address, {key}])) {
-              this.ssb.conn.forget(address);
-            } else if (!this.ssb.conn.db().has(address)) {
-              this.ssb.conn.stage(address, {key, type: 'pub'});
-              this.ssb.conn.remember(address, {
-                key,
-                type: 'pub',
-                autoconnect: false,
-              });
-            }
-          } catch (err) {
-            debug('cannot process discovered pub because: %s', err);
-          }
-        }),
-      );
-
-      // Pause or resume the draining depending on the number of staged pubs
-      pull(
-        this.ssb.conn.staging().liveEntries(),
-        pull.drain((staged: Array<any>) => {
-          const stagedPubs = staged.filter(([, data]) => data.type === 'pub');
-          if (stagedPubs.length >= MAX_STAGED_PUBS) {
-            pausable.pause();
-          } else {
-            pausable.resume();
-          }
-        }),
+        // Announcements seen while disabled are read again after a restart
+        pull.filter(
+          () =>
+            this.resolvedConfig.gossip.autoPopulate &&
+            this.toggles.isEnabled('pub'),
+        ),
+        drain,
       );
     }, 1000);
+
+    this.teardowns.push(() => {
+      this.env.clearTimeout(timer);
+      drain.abort();
+    });
   }
 
   private setupBluetoothDiscovery() {
+    if (this.ssb.conn.privacy() === 'tor-only') {
+      debug('Bluetooth discovery is disabled in tor-only privacy mode');
+      return;
+    }
+
     if (!this.ssb.bluetooth || !this.ssb.bluetooth.nearbyScuttlebuttDevices) {
       debug(
         'Warning: ssb-bluetooth is missing, scheduling will miss some info',
@@ -414,54 +706,87 @@ export class ConnScheduler {
       return;
     }
 
-    pull(
-      this.ssb.bluetooth.nearbyScuttlebuttDevices(1000),
-      pull.drain(({discovered}: {discovered: Array<BTPeer>}) => {
-        for (const btPeer of discovered) {
-          const address =
-            `bt:${btPeer.remoteAddress.split(':').join('')}` +
-            '~' +
-            `shs:${btPeer.id.replace(/^\@/, '').replace(/\.ed25519$/, '')}`;
-          const data: Partial<StagedData> = {
-            type: 'bt',
-            note: btPeer.displayName,
-            key: btPeer.id,
-          };
-          if (this.weFollowThem([address, data])) {
-            this.ssb.conn.connect(address, data);
-          } else {
-            this.ssb.conn.stage(address, data);
-          }
+    const drain = pull.drain(({discovered}: {discovered: Array<BTPeer>}) => {
+      if (!this.toggles.isEnabled('bt')) return;
+      for (const btPeer of discovered) {
+        const address =
+          `bt:${btPeer.remoteAddress.split(':').join('')}` +
+          '~' +
+          `shs:${btPeer.id.replace(/^\@/, '').replace(/\.ed25519$/, '')}`;
+        const data: Partial<StagedData> = {
+          type: 'bt',
+          note: btPeer.displayName,
+          key: btPeer.id,
+        };
+        if (this.weBanThem([address, data])) continue;
+        if (this.weDontAllowThem([address, data])) continue;
+        if (this.weFollowThem([address, data])) {
+          this.ssb.conn.connect(address, data);
+        } else {
+          this.ssb.conn.stage(address, data);
         }
-      }),
-    );
+      }
+    });
+    pull(this.ssb.bluetooth.nearbyScuttlebuttDevices(1000), drain);
+    this.teardowns.push(() => drain.abort());
   }
 
   private setupLanDiscovery() {
+    if (this.ssb.conn.privacy() === 'tor-only') {
+      debug('LAN discovery is disabled in tor-only privacy mode');
+      return;
+    }
+
     if (!this.ssb.lan || !this.ssb.lan.start || !this.ssb.lan.discoveredPeers) {
       debug('Warning: ssb-lan is missing, scheduling will miss some info');
       return;
     }
 
-    pull(
-      this.ssb.lan.discoveredPeers(),
-      pull.drain(({address, verified}: LANDiscovery) => {
-        const peer = Ref.parseAddress(address);
-        if (!peer || !peer.key) return;
-        const data: Partial<StagedData> = {
-          type: 'lan',
-          key: peer.key,
-          verified,
-        };
-        if (this.weFollowThem([address, data])) {
-          this.ssb.conn.connect(address, data);
-        } else {
-          this.ssb.conn.stage(address, data);
-        }
-      }),
-    );
+    const drain = pull.drain(({address, verified}: LANDiscovery) => {
+      if (!this.toggles.isEnabled('lan')) return;
+      const peer = Ref.parseAddress(address);
+      if (!peer || !peer.key) return;
+      const data: Partial<StagedData> = {
+        type: 'lan',
+        key: peer.key,
+        verified,
+      };
+      if (this.weBanThem([address, data])) return;
+      if (this.weDontAllowThem([address, data])) return;
+      if (this.weFollowThem([address, data])) {
+        this.ssb.conn.connect(address, data);
+      } else {
+        this.ssb.conn.stage(address, data);
+      }
+    });
+    pull(this.ssb.lan.discoveredPeers(), drain);
+    this.teardowns.push(() => drain.abort());
+
+    if (this.toggles.isEnabled('lan')) this.ssb.lan.start();
+  }
+
+  private toggleLanDiscovery(enabled: boolean) {
+    if (this.ssb.conn.privacy() === 'tor-only' || !this.ssb.lan) return;
+    if (enabled && this.ssb.lan.start) this.ssb.lan.start();
+    if (!enabled && this.ssb.lan.stop) this.ssb.lan.stop();
+  }
+
+  /**
+   * Drop the staged and connected peers of a kind that was just disabled
+   */
+  private dropDisabled(kind: DiscoveryKind) {
+    this.ssb.conn
+      .query()
+      .peersConnectable('staging')
+      .filter(peer => kindOf(peer) === kind)
+      .forEach(([addr]) => this.ssb.conn.unstage(addr));
 
-    this.ssb.lan.start();
+    this.ssb.conn
+      .query()
+      .peersInConnection()
+      .filter(peer => kindOf(peer) === kind)
+      .filter(peer => !isPinned(peer))
+      .forEach(peer => this.disconnect(peer, 'disabled'));
   }
 
   @muxrpc('sync')
@@ -469,20 +794,11 @@ export class ConnScheduler {
     if (!this.closed) return;
     this.closed = false;
 
-    // Upon init, purge some undesired DB entries
-    for (let [address, {source, type}] of this.ssb.conn.dbPeers()) {
-      if (
-        source === 'local' ||
-        source === 'bt' ||
-        type === 'lan' ||
-        type === 'bt'
-      ) {
-        this.ssb.conn.forget(address);
-      }
-    }
-
-    // Upon init, load some follow-and-blocks data
-    this.loadHops();
+    // Upon init, load some follow-and-blocks data, so that garbage collection
+    // of ConnDB keeps the peers we follow
+    this.loadHops(() => {
+      if (this.resolvedConfig.conn.gc.interval > 0) this.ssb.conn.gc();
+    });
 
     // Upon init, populate with seeds
     this.populateWithSeeds();
@@ -493,30 +809,121 @@ export class ConnScheduler {
     this.setupBluetoothDiscovery();
 
     // Upon regular time intervals, attempt to make connections
-    const int = setInterval(() => this.updateSoon(), 2e3);
-    if (int.unref) int.unref();
+    this.setupInterval();
 
     // Upon wakeup, trigger hard reconnect
-    onWakeup(() => this.ssb.conn.hub().reset());
+    this.teardowns.push(this.env.onWakeup(() => this.ssb.conn.hub().reset()));
 
     // Upon network changes, trigger hard reconnect
-    onNetwork(() => this.ssb.conn.hub().reset());
+    this.teardowns.push(this.env.onNetwork(() => this.ssb.conn.hub().reset()));
 
     // Upon some disconnection, attempt to make connections
+    const disconnections = pull.drain(() => this.updateSoon(200));
     pull(
       this.ssb.conn.hub().listen(),
       pull.filter((ev: HubEvent) => ev.type === 'disconnected'),
-      pull.drain(() => this.updateSoon(200)),
+      disconnections,
     );
+    this.teardowns.push(() => disconnections.abort());
+
+    // Keep track of the connectivity, for health()
+    this.watchdog.start();
+    this.teardowns.push(() => this.watchdog.stop());
 
     // Upon init, attempt to make some connections
     this.updateSoon();
   };
 
+  @muxrpc('sync')
+  public explain = (address?: string) => {
+    const explanation = this.decisionLog.explain(address);
+    if (!explanation) return explanation;
+    return {...explanation, privacy: this.ssb.conn.privacy()};
+  };
+
+  @muxrpc('source')
+  public decisions = () => this.decisionLog.listen();
+
+  @muxrpc('sync')
+  public setEnabled = (kind: string, enabled: boolean) => {
+    const discovery = toDiscoveryKind(kind);
+    if (typeof enabled !== 'boolean') {
+      throw new Error('setEnabled() expects a boolean as second argument');
+    }
+    if (!this.toggles.set(discovery, enabled)) return;
+    debug('%s discovery %s', discovery, enabled ? 'enabled' : 'disabled');
+    if (this.closed) return;
+
+    if (discovery === 'lan') this.toggleLanDiscovery(enabled);
+    if (enabled && discovery === 'seed') this.populateWithSeeds();
+    if (!enabled) this.dropDisabled(discovery);
+    this.updateSoon();
+  };
+
+  @muxrpc('sync')
+  public enabled = () => this.toggles.state();
+
+  @muxrpc('sync')
+  public health = () => this.watchdog.health();
+
+  @muxrpc('source')
+  public liveHealth = () => this.watchdog.liveHealth();
+
+  @muxrpc('sync')
+  public config = () => this.resolvedConfig;
+
+  @muxrpc('sync')
+  public reconfigure = (partial: any) => {
+    checkReconfigurable(partial);
+    const config = mergeConfig(this.rawConfig, partial);
+    // Throws before anything is applied, if the new config is invalid
+    const resolved = loadConfig(config);
+    const rules = withPinnedRule(loadRules(config)).map(rule =>
+      compileRule(rule, key => this.hops[key]),
+    );
+    const latencyLimits = loadLatencyLimits(config);
+    const rotation = new RotationPolicy(config.conn && config.conn.rotation);
+    const pubs = new PubRanking(config.conn && config.conn.pubs);
+
+    const previous = this.resolvedConfig;
+    this.rawConfig = config;
+    this.resolvedConfig = resolved;
+    this.rules = rules;
+    this.latencyLimits = latencyLimits;
+    this.rotation = rotation;
+    this.pubs = pubs;
+    debug('reconfigured with %o', partial);
+
+    const gossip = partial.gossip || {};
+    for (const kind of ['seed', 'pub', 'local', 'global']) {
+      if (typeof gossip[kind] === 'boolean') {
+        this.setEnabled(kind, gossip[kind]);
+      }
+    }
+    if (this.closed) return this.resolvedConfig;
+
+    const interval = resolved.conn.scheduler.interval;
+    if (interval !== previous.conn.scheduler.interval) this.setupInterval();
+    if (partial.seeds) this.populateWithSeeds();
+    this.updateSoon();
+    return this.resolvedConfig;
+  };
+
   @muxrpc('sync')
   public stop = () => {
+    // Toggles may have been changed even if the scheduler never started
+    this.toggles.close();
+    if (this.closed) return;
+    this.closed = true;
+
+    for (const teardown of this.teardowns.splice(0)) teardown();
+    if (this.interval) this.env.clearInterval(this.interval);
+    if (this.scheduledUpdate) this.env.clearTimeout(this.scheduledUpdate);
+    this.interval = null;
+    this.scheduledUpdate = null;
+    this.hasScheduledAnUpdate = false;
+
     if (this.ssb.lan && this.ssb.lan.stop) this.ssb.lan.stop();
     this.ssb.conn.hub().reset();
-    this.closed = true;
   };
 }
@@ -1,30 +1,136 @@
+import http = require('http');
 import ConnDB = require('ssb-conn-db');
 import ConnHub = require('ssb-conn-hub');
 import ConnStaging = require('ssb-conn-staging');
-import ConnQuery = require('ssb-conn-query');
 import {AddressData} from 'ssb-conn-db/lib/types';
 import {StagedData} from 'ssb-conn-staging/lib/types';
 import {plugin, muxrpc} from 'secret-stack-decorators';
 import {Callback} from './types';
 import {interpoolGlue} from './interpool-glue';
+import {Query} from './query';
+import {createScorer} from './scoring';
+import {createEnvironment, Environment} from './environment';
+import {ConnHistory, HistoryOpts} from './history';
+import {JsonFile, storagePath} from './json-file';
+import {ConnMetrics, toOpenMetrics} from './metrics';
+import {BanList, BanOpts} from './bans';
+import {Allowlist} from './allowlist';
+import {TransportPreference} from './transports';
+import {loadPrivacy, privacyRefusal, PrivacyMode} from './privacy';
+import {ConnProber, ProbeConfig, tcpProbe} from './probe';
+import {LatencyTracker} from './latency';
+import {StagingStore} from './staging';
+import {RejectionList, ApproveOpts, RejectOpts} from './rejections';
+import {ConnGC, GCOpts} from './gc';
+import {ConnSchema, StoredData, ValidatingConnDB} from './schema';
+import {loadConfig, ResolvedConfig} from './config';
+import {ConnEvents, EventsOpts} from './events';
+const pull = require('pull-stream');
 const ping = require('pull-ping');
+const Ref = require('ssb-ref');
+const debug = require('debug')('ssb:conn');
 
 @plugin('1.0.0')
 export class CONN {
   private readonly ssb: any;
-  private readonly config: any;
+  private readonly _config: any;
+  private readonly _resolvedConfig: ResolvedConfig;
   private readonly _db: ConnDB;
   private readonly _hub: ConnHub;
   private readonly _staging: ConnStaging;
-  private readonly _query: ConnQuery;
+  private readonly _query: Query;
+  private readonly _env: Environment;
+  private readonly _history: ConnHistory;
+  private readonly _metrics: ConnMetrics;
+  private readonly _events: ConnEvents;
+  private readonly _bans: BanList;
+  private readonly _allowlist: Allowlist;
+  private readonly _rejections: RejectionList;
+  private readonly _privacy: PrivacyMode | null;
+  private readonly _prober: ConnProber;
+  private readonly _latency: LatencyTracker;
+  private readonly _stagingStore: StagingStore;
+  private readonly _gc: ConnGC;
+  private readonly _schema: ConnSchema;
+  private readonly _upgraded: Promise<unknown>;
+  private _metricsServer?: http.Server;
 
   constructor(ssb: any, cfg: any) {
     this.ssb = ssb;
-    this.config = cfg;
-    this._db = new ConnDB({path: this.config.path, writeTimeout: 1e3});
+    this._config = cfg;
+    this._resolvedConfig = loadConfig(cfg);
+    const conn = this._resolvedConfig.conn;
+    this._env = createEnvironment(cfg);
+    this._privacy = loadPrivacy(cfg);
+    this._db = new ValidatingConnDB({
+      path: this._config.path,
+      writeTimeout: 1e3,
+    });
+    this._schema = new ConnSchema(
+      this._db,
+      new JsonFile(storagePath(this._config, 'conn-schema.json')),
+      new JsonFile(storagePath(this._config, 'conn-quarantine.json')),
+      this._env,
+    );
+    this._upgraded = this._db.loaded().then(() => this._schema.upgrade());
     this._hub = new ConnHub(this.ssb);
     this._staging = new ConnStaging();
-    this._query = new ConnQuery(this._db, this._hub, this._staging);
+    this._bans = new BanList(
+      new JsonFile(storagePath(this._config, 'conn-bans.json')),
+      this._env,
+    );
+    this._allowlist = new Allowlist(conn.allowlist);
+    this._rejections = new RejectionList(
+      new JsonFile(storagePath(this._config, 'conn-rejections.json')),
+      this._env,
+    );
+    this._stagingStore = new StagingStore(
+      this._staging,
+      new JsonFile(storagePath(this._config, 'conn-staging.json')),
+      this._env,
+      (address, data) => !this.refusesToStage(address, data.key),
+      conn.staging,
+    );
+    this._query = new Query(
+      this._db,
+      this._hub,
+      this._staging,
+      this.createScorer(),
+      this.createTransportPreference(),
+    );
+    this._metrics = new ConnMetrics(
+      this._db,
+      this._hub,
+      this._staging,
+      this._env,
+      this._privacy,
+    );
+    this._events = new ConnEvents(
+      this._db,
+      this._hub,
+      this._staging,
+      this._env,
+    );
+    this._history = new ConnHistory(
+      this._hub,
+      new JsonFile(storagePath(this._config, 'conn-history.json')),
+      this._env,
+      conn.history,
+    );
+    this._prober = this.createProber();
+    this._gc = new ConnGC(
+      this._db,
+      this._hub,
+      this._env,
+      key => this._query.hopsOf(key),
+      conn.gc,
+    );
+    this._latency = new LatencyTracker(
+      this._db,
+      this._hub,
+      this._env,
+      conn.latency,
+    );
 
     this.initialize();
   }
@@ -33,14 +139,33 @@ export class CONN {
 
   private initialize() {
     this.setupCloseHook();
+    this.maybeStartMetricsServer();
+    this.dropRefusedConnections();
     this.maybeAutoStartScheduler();
-    interpoolGlue(this._db, this._hub, this._staging);
+    interpoolGlue(
+      this._db,
+      this._hub,
+      this._staging,
+      this._env,
+      this._latency,
+    );
   }
 
   private setupCloseHook() {
     const that = this;
     this.ssb.close.hook(function(this: any, fn: Function, args: Array<any>) {
       that.stopScheduler();
+      that._history.close();
+      that._metrics.close();
+      that._events.close();
+      that._bans.close();
+      that._rejections.close();
+      that._prober.close();
+      that._gc.close();
+      that._latency.close();
+      that._schema.close();
+      that._stagingStore.close();
+      if (that._metricsServer) that._metricsServer.close();
       that._db.close();
       that._hub.close();
       that._staging.close();
@@ -48,8 +173,81 @@ export class CONN {
     });
   }
 
+  private createScorer() {
+    // Functions are not part of the resolved config
+    const scoring = (this._config.conn && this._config.conn.scoring) || {};
+    if (typeof scoring.scorer === 'function') return scoring.scorer;
+    return createScorer(this._resolvedConfig.conn.scoring.weights);
+  }
+
+  private createTransportPreference() {
+    // In tor-only mode, the resolved transports are only onion
+    return new TransportPreference(this._resolvedConfig.conn.transports);
+  }
+
+  private createProber() {
+    const opts: Partial<ProbeConfig> | false =
+      this._config.conn && this._config.conn.probe;
+    const config: Partial<ProbeConfig> = {...this._resolvedConfig.conn.probe};
+    const probe = (opts && opts.probe) || tcpProbe;
+    // Probing other transports could reveal our IP address
+    config.probe = (address, timeout) =>
+      privacyRefusal(this._privacy, address)
+        ? Promise.resolve(null)
+        : probe(address, timeout);
+    return new ConnProber(
+      this._db,
+      this._hub,
+      this._staging,
+      this._env,
+      config,
+    );
+  }
+
+  private maybeStartMetricsServer() {
+    const opts = this._resolvedConfig.conn.metrics;
+    if (!opts) return;
+
+    this._metricsServer = http.createServer((req, res) => {
+      if (
+        req.method !== 'GET' ||
+        (req.url || '').split('?')[0] !== '/metrics'
+      ) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type':
+          'application/openmetrics-text; version=1.0.0; charset=utf-8',
+      });
+      res.end(this.openMetrics());
+    });
+    this._metricsServer.on('error', (err: any) => {
+      debug('failed to serve metrics: %s', err.message);
+    });
+    this._metricsServer.listen(opts.port, opts.host);
+    this._metricsServer.unref();
+  }
+
+  /**
+   * Inbound connections are accepted by ConnHub without asking us, so we drop
+   * those from banned or not allowed peers as soon as they are established.
+   */
+  private dropRefusedConnections() {
+    pull(
+      this._hub.listen(),
+      pull.filter((ev: any) => ev.type === 'connected'),
+      pull.drain((ev: any) => {
+        if (this.refuses(ev.address, ev.key)) {
+          this._hub.disconnect(ev.address).catch(() => {});
+        }
+      }),
+    );
+  }
+
   private maybeAutoStartScheduler() {
-    if (this.config.conn && this.config.conn.autostart !== false) {
+    if (this._resolvedConfig.conn.autostart) {
       this.startScheduler();
     }
   }
@@ -59,13 +257,13 @@ export class CONN {
   //#region Helper methods
 
   private async startScheduler() {
-    await this._db.loaded();
+    await this._upgraded;
 
     if (this.ssb.connScheduler) {
       this.ssb.connScheduler.start();
     } else {
       // Maybe this is a race condition, so let's wait a bit more
-      setTimeout(() => {
+      this._env.setTimeout(() => {
         if (this.ssb.connScheduler) {
           this.ssb.connScheduler.start();
         } else {
@@ -82,12 +280,43 @@ export class CONN {
     if (this.ssb.connScheduler) this.ssb.connScheduler.stop();
   }
 
+  private refuses(address: string, key?: string) {
+    return (
+      this._bans.isBanned(address, key) ||
+      !this._allowlist.isAllowed(address, key)
+    );
+  }
+
+  /**
+   * Whether the peer must never be staged, whatever its connection state
+   */
+  private refusesToStage(address: string, key?: string) {
+    return (
+      this.refuses(address, key) ||
+      !!privacyRefusal(this._privacy, address) ||
+      this._rejections.isRejected(address, key)
+    );
+  }
+
+  private dropRefusedPeers() {
+    for (const [address, data] of this._hub.entries()) {
+      if (this.refuses(address, data.key)) {
+        this._hub.disconnect(address).catch(() => {});
+      }
+    }
+    for (const [address, data] of this._staging.entries()) {
+      if (this.refuses(address, data.key)) {
+        this._staging.unstage(address);
+      }
+    }
+  }
+
   //#endregion
 
   //#region PUBLIC MUXRPC
 
   @muxrpc('sync')
-  public remember = (address: string, data: any = {}) => {
+  public remember = (address: string, data: StoredData = {}) => {
     this._db.set(address, data);
   };
 
@@ -96,6 +325,20 @@ export class CONN {
     this._db.delete(address);
   };
 
+  @muxrpc('sync')
+  public pin = (address: string) => {
+    this._db.set(address, {pinned: true});
+    this._hub.update(address, {pinned: true});
+  };
+
+  @muxrpc('sync')
+  public unpin = (address: string) => {
+    if (!this._db.has(address)) return false;
+    this._db.update(address, {pinned: false});
+    this._hub.update(address, {pinned: false});
+    return true;
+  };
+
   @muxrpc('sync')
   public dbPeers = () => this._db.entries() as Iterable<[string, AddressData]>;
 
@@ -112,6 +355,48 @@ export class CONN {
     const cb = (typeof last === 'function' ? last : null) as Callback<any>;
     const data = (typeof b === 'object' ? b : {}) as any;
 
+    const refusal = privacyRefusal(this._privacy, address);
+    if (refusal) {
+      if (cb) cb(refusal);
+      return;
+    }
+    if (this._bans.isBanned(address, data.key)) {
+      if (cb) cb(new Error('Cannot connect to ' + address + ', it is banned'));
+      return;
+    }
+    if (!this._allowlist.isAllowed(address, data.key)) {
+      if (cb) {
+        cb(new Error('Cannot connect to ' + address + ', it is not allowed'));
+      }
+      return;
+    }
+
+    // Never hold two connections to the same feed, via different addresses
+    const key = data.key || Ref.getKeyFromAddress(address);
+    if (key) {
+      for (const [other, otherData] of this._hub.entries()) {
+        if (other === address || otherData.key !== key) continue;
+        if (
+          otherData.state === 'connecting' ||
+          otherData.state === 'connected'
+        ) {
+          if (cb) {
+            cb(
+              new Error(
+                'Cannot connect to ' +
+                  address +
+                  ', the same feed is already ' +
+                  otherData.state +
+                  ' via ' +
+                  other,
+              ),
+            );
+          }
+          return;
+        }
+      }
+    }
+
     this._hub
       .connect(address, data)
       .then(result => cb && cb(null, result), err => cb && cb(err));
@@ -127,19 +412,38 @@ export class CONN {
   @muxrpc('source')
   public peers = () => this._hub.liveEntries();
 
+  @muxrpc('sync')
+  public history = (address: string, opts?: HistoryOpts) =>
+    this._history.get(address, opts);
+
+  @muxrpc('async')
+  public probe = (address: string, cb: Callback<any>) => {
+    this._prober
+      .probe(address)
+      .then(result => cb && cb(null, result), err => cb && cb(err));
+  };
+
   @muxrpc('sync')
   public stage = (
     address: string,
     data: Partial<StagedData> = {type: 'internet'},
   ) => {
     if (!!this._hub.getState(address)) return false;
+    if (this.refusesToStage(address, data.key)) return false;
     if (data.key) {
       for (const other of this._hub.entries()) {
         if (other[1].key === data.key) return false;
       }
     }
 
-    return this._staging.stage(address, data);
+    // ConnStaging timestamps with Date.now(), but TTLs use our environment
+    const now = this._env.now();
+    const prev = this._staging.get(address);
+    return this._staging.stage(address, {
+      ...(prev ? {} : {stagingBirth: now}),
+      ...data,
+      stagingUpdated: now,
+    });
   };
 
   @muxrpc('sync')
@@ -150,6 +454,91 @@ export class CONN {
   @muxrpc('source')
   public stagedPeers = () => this._staging.liveEntries();
 
+  @muxrpc('source')
+  public events = (opts?: EventsOpts) => this._events.listen(opts);
+
+  @muxrpc('async')
+  public approve = (
+    address: string,
+    b?: ApproveOpts | null | Callback<any>,
+    c?: Callback<any>,
+  ) => {
+    const cb = (typeof b === 'function' ? b : c) as Callback<any> | undefined;
+    const opts = (typeof b === 'object' && b) || {};
+    const {remember = true, autoconnect = true} = opts;
+
+    const staged = this._staging.get(address);
+    if (!staged) {
+      if (cb) cb(new Error('Cannot approve ' + address + ', it is not staged'));
+      return;
+    }
+    const {stagingBirth, stagingUpdated, ...data} = staged;
+    this._rejections.unreject(address, data.key);
+    if (remember) this._db.set(address, {...data, autoconnect});
+    if (autoconnect) this.connect(address, data, cb);
+    else if (cb) cb(null, false);
+  };
+
+  @muxrpc('sync')
+  public reject = (address: string, opts?: RejectOpts) => {
+    const rejection = this._rejections.reject(address, opts);
+    for (const [addr, data] of this._staging.entries()) {
+      if (addr === address || (!!rejection.key && data.key === rejection.key)) {
+        this._staging.unstage(addr);
+      }
+    }
+    return rejection;
+  };
+
+  @muxrpc('sync')
+  public rejected = () => this._rejections.list();
+
+  @muxrpc('sync')
+  public ban = (target: string, opts?: BanOpts) => {
+    const ban = this._bans.ban(target, opts);
+    this.dropRefusedPeers();
+    return ban;
+  };
+
+  @muxrpc('sync')
+  public unban = (target: string) => this._bans.unban(target);
+
+  @muxrpc('sync')
+  public bans = () => this._bans.list();
+
+  @muxrpc('sync')
+  public isBanned = (address: string, key?: string) =>
+    this._bans.isBanned(address, key);
+
+  @muxrpc('sync')
+  public allow = (key: string) => {
+    const wasEnabled = this._allowlist.isEnabled();
+    this._allowlist.allow(key);
+    if (!wasEnabled) this.dropRefusedPeers();
+  };
+
+  @muxrpc('sync')
+  public disallow = (key: string) => {
+    const existed = this._allowlist.disallow(key);
+    if (existed) this.dropRefusedPeers();
+    return existed;
+  };
+
+  @muxrpc('sync')
+  public disableAllowlist = () => {
+    this._allowlist.disable();
+  };
+
+  @muxrpc('sync')
+  public allowlist = () => this._allowlist.list();
+
+  @muxrpc('sync')
+  public isAllowed = (address: string, key?: string) =>
+    this._allowlist.isAllowed(address, key);
+
+  @muxrpc('sync')
+  public privacy = () => this._privacy;
+
   @muxrpc('sync')
   public start = () => {
     return this.startScheduler();
@@ -162,14 +551,40 @@ export class CONN {
 
   @muxrpc('duplex', {anonymous: 'allow'})
   public ping = () => {
-    const MIN = 10e3;
-    const DEFAULT = 5 * 60e3;
-    const MAX = 30 * 60e3;
-    let timeout = (this.config.timers && this.config.timers.ping) || DEFAULT;
-    timeout = Math.max(MIN, Math.min(timeout, MAX));
-    return ping({timeout});
+    return ping({timeout: this._resolvedConfig.timers.ping});
+  };
+
+  @muxrpc('sync')
+  public config = () => {
+    // The scheduler's options can change at runtime, see reconfigure()
+    const scheduler = this.ssb.connScheduler;
+    if (!scheduler || !scheduler.config) return this._resolvedConfig;
+    return scheduler.config();
+  };
+
+  @muxrpc('sync')
+  public stats = () => this._metrics.stats();
+
+  @muxrpc('source')
+  public liveStats = () => this._metrics.liveStats();
+
+  @muxrpc('sync')
+  public health = () => {
+    const scheduler = this.ssb.connScheduler;
+    if (!scheduler || !scheduler.health) return null;
+    return scheduler.health();
+  };
+
+  @muxrpc('source')
+  public liveHealth = () => {
+    const scheduler = this.ssb.connScheduler;
+    if (!scheduler || !scheduler.liveHealth) return pull.empty();
+    return scheduler.liveHealth();
   };
 
+  @muxrpc('sync')
+  public openMetrics = () => toOpenMetrics(this._metrics.stats());
+
   @muxrpc('sync')
   public db = () => this._db;
 
@@ -182,6 +597,27 @@ export class CONN {
   @muxrpc('sync')
   public query = () => this._query;
 
+  @muxrpc('sync')
+  public metrics = () => this._metrics;
+
+  @muxrpc('sync')
+  public prober = () => this._prober;
+
+  @muxrpc('sync')
+  public eventBus = () => this._events;
+
+  @muxrpc('sync')
+  public stagingStore = () => this._stagingStore;
+
+  @muxrpc('sync')
+  public gc = (opts?: GCOpts) => this._gc.run(opts);
+
+  @muxrpc('sync')
+  public quarantined = () => this._schema.quarantined();
+
+  @muxrpc('sync')
+  public latency = (address: string) => this._latency.get(address);
+
   @muxrpc('sync')
   public internalConnDB = () => {
     console.error('DEPRECATED conn.internalConnDB(), use conn.db() instead');
@@ -0,0 +1,183 @@
+import {Peer} from 'ssb-conn-query/lib/types';
+const Notify = require('pull-notify');
+
+/**
+ * The first filter that excluded a candidate from being connected
+ */
+export type ExclusionReason =
+  | 'key-in-connection'
+  | 'transport-not-allowed'
+  | 'blocked'
+  | 'banned'
+  | 'not-allowed'
+  | 'disabled'
+  | 'offline'
+  | 'unreachable'
+  | 'autoconnect-false'
+  | 'group-debounce'
+  | 'exp-backoff'
+  | 'no-free-slots';
+
+export type DecisionReason =
+  | 'below-quota'
+  | 'excess-quota'
+  | 'followed-staged'
+  | 'blocked'
+  | 'banned'
+  | 'not-allowed'
+  | 'disabled'
+  | 'duplicate-key'
+  | 'stuck-connecting'
+  | 'unpinged'
+  | 'high-latency'
+  | 'rotation'
+  | 'idle';
+
+export type SkipReason = 'not-ready' | 'downloading' | 'loading-hops';
+
+export type Candidate = {
+  address: string;
+  key?: string;
+  rule: string;
+  excludedBy?: ExclusionReason;
+};
+
+export type Decision = {
+  tick: number;
+  timestamp: number;
+  action: 'connect' | 'disconnect';
+  address: string;
+  key?: string;
+  rule?: string;
+  reason: DecisionReason;
+};
+
+export type SkippedTick = {
+  tick: number;
+  timestamp: number;
+  reason: SkipReason;
+};
+
+export type TickExplanation = {
+  tick: number;
+  timestamp: number;
+  /**
+   * The latest tick skipped since this one, if any
+   */
+  skipped?: SkippedTick;
+  candidates: Array<Candidate>;
+  decisions: Array<Decision>;
+};
+
+/**
+ * Records what the scheduler considered and decided on each tick.
+ */
+export class DecisionLog {
+  private readonly now: () => number;
+  private readonly notify: any;
+  private tick: number;
+  private current: TickExplanation | null;
+  private latest: TickExplanation | null;
+  private skipped: SkippedTick | null;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+    this.notify = Notify();
+    this.tick = 0;
+    this.current = null;
+    this.latest = null;
+    this.skipped = null;
+  }
+
+  public beginTick(timestamp: number) {
+    this.tick += 1;
+    this.current = {
+      tick: this.tick,
+      timestamp,
+      candidates: [],
+      decisions: [],
+    };
+  }
+
+  public endTick() {
+    if (this.current) {
+      this.latest = this.current;
+      this.skipped = null;
+    }
+    this.current = null;
+  }
+
+  /**
+   * Records a tick that did nothing, keeping the latest complete tick
+   */
+  public skipTick(timestamp: number, reason: SkipReason) {
+    this.tick += 1;
+    this.current = null;
+    this.skipped = {tick: this.tick, timestamp, reason};
+  }
+
+  public consider(
+    [address, data]: Peer,
+    rule: string,
+    excludedBy?: ExclusionReason,
+  ) {
+    if (!this.current) return;
+    const candidate: Candidate = {address, key: data.key, rule};
+    if (excludedBy) candidate.excludedBy = excludedBy;
+    this.current.candidates.push(candidate);
+  }
+
+  public decide(
+    action: Decision['action'],
+    [address, data]: Peer,
+    reason: DecisionReason,
+    rule?: string,
+  ) {
+    const decision: Decision = {
+      tick: this.current ? this.current.tick : this.tick,
+      timestamp: this.current ? this.current.timestamp : this.now(),
+      action,
+      address,
+      key: data.key,
+      reason,
+    };
+    if (rule) decision.rule = rule;
+    if (this.current) this.current.decisions.push(decision);
+    this.notify(decision);
+    return decision;
+  }
+
+  /**
+   * The latest complete tick, optionally narrowed to one address, and the
+   * latest tick skipped after it
+   */
+  public explain(address?: string): TickExplanation | null {
+    const latest = this.withSkipped();
+    if (!latest) return null;
+    if (!address) return latest;
+    return {
+      ...latest,
+      candidates: latest.candidates.filter(c => c.address === address),
+      decisions: latest.decisions.filter(d => d.address === address),
+    };
+  }
+
+  private withSkipped(): TickExplanation | null {
+    const skipped = this.skipped;
+    if (!skipped) return this.latest;
+    // Before the first complete tick, there is only the skip to explain
+    if (!this.latest) {
+      const {tick, timestamp} = skipped;
+      return {tick, timestamp, skipped, candidates: [], decisions: []};
+    }
+    return {...this.latest, skipped};
+  }
+
+  public listen() {
+    return this.notify.listen();
+  }
+
+  public close() {
+    this.notify.end();
+  }
+}
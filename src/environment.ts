@@ -0,0 +1,86 @@
+const onWakeup = require('on-wakeup');
+const onNetwork = require('on-change-network');
+const hasNetwork = require('has-network');
+
+/**
+ * Everything that CONN and ConnScheduler need from the outside world in
+ * order to schedule work. Tests can replace any of these (e.g. with a virtual
+ * clock and a seeded random number generator) via `config.conn.environment`.
+ */
+export type Environment = {
+  now(): number;
+  random(): number;
+  setTimeout(fn: () => void, ms: number): any;
+  clearTimeout(timer: any): void;
+  setInterval(fn: () => void, ms: number): any;
+  clearInterval(timer: any): void;
+  hasNetwork(): boolean;
+  /**
+   * Returns a function that removes the listener
+   */
+  onWakeup(listener: () => void): () => void;
+  /**
+   * Returns a function that removes the listener
+   */
+  onNetwork(listener: () => void): () => void;
+};
+
+// on-wakeup and on-change-network cannot remove listeners, so we subscribe
+// only once and dispatch to our own set of listeners
+function createBroadcast(subscribe: (fn: () => void) => void) {
+  const listeners = new Set<() => void>();
+  let subscribed = false;
+  return (listener: () => void) => {
+    if (!subscribed) {
+      subscribe(() => listeners.forEach(fn => fn()));
+      subscribed = true;
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+}
+
+let lastCheck = 0;
+let lastValue: any = null;
+function hasNetworkDebounced() {
+  if (lastCheck + 1e3 < Date.now()) {
+    lastCheck = Date.now();
+    lastValue = hasNetwork();
+  }
+  return lastValue;
+}
+
+export const defaultEnvironment: Readonly<Environment> = {
+  now: () => Date.now(),
+  random: () => Math.random(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: timer => clearTimeout(timer),
+  setInterval: (fn, ms) => setInterval(fn, ms),
+  clearInterval: timer => clearInterval(timer),
+  hasNetwork: hasNetworkDebounced,
+  onWakeup: createBroadcast(onWakeup),
+  onNetwork: createBroadcast(onNetwork),
+};
+
+export function validateEnvironment(overrides: any): string[] {
+  if (overrides === undefined) return [];
+  if (!overrides || typeof overrides !== 'object') {
+    return ['should be an object'];
+  }
+  const errors: Array<string> = [];
+  for (const name of Object.keys(overrides)) {
+    if (!(name in defaultEnvironment)) {
+      errors.push(`${name} is not supported`);
+    } else if (typeof overrides[name] !== 'function') {
+      errors.push(`${name} should be a function`);
+    }
+  }
+  return errors;
+}
+
+export function createEnvironment(config: any): Environment {
+  const overrides = (config.conn && config.conn.environment) || {};
+  return {...defaultEnvironment, ...overrides};
+}
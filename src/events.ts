@@ -0,0 +1,242 @@
+import ConnDB = require('ssb-conn-db');
+import ConnHub = require('ssb-conn-hub');
+import ConnStaging = require('ssb-conn-staging');
+import {ListenEvent as DBEvent} from 'ssb-conn-db/lib/types';
+import {ListenEvent as HubEvent} from 'ssb-conn-hub/lib/types';
+import {ListenEvent as StagingEvent} from 'ssb-conn-staging/lib/types';
+import {Environment} from './environment';
+import {Decision} from './decisions';
+const pull = require('pull-stream');
+const cat = require('pull-cat');
+const Notify = require('pull-notify');
+
+export type ConnEventType =
+  | 'db:remembered'
+  | 'db:updated'
+  | 'db:forgotten'
+  | 'hub:connecting'
+  | 'hub:connecting-failed'
+  | 'hub:connected'
+  | 'hub:disconnecting'
+  | 'hub:disconnecting-failed'
+  | 'hub:disconnected'
+  | 'staging:staged'
+  | 'staging:unstaged'
+  | 'scheduler:decision';
+
+export type ConnEventPool = 'db' | 'hub' | 'staging' | 'scheduler';
+
+export type ConnEvent = {
+  type: ConnEventType;
+  address: string;
+  key?: string;
+  timestamp: number;
+  /**
+   * The data of the address in the pool, after the change
+   */
+  data?: any;
+  /**
+   * For `hub:connecting-failed` and `hub:disconnecting-failed`
+   */
+  error?: string;
+  /**
+   * For `scheduler:decision`
+   */
+  decision?: Decision;
+  /**
+   * Whether the event describes the state at the time of subscribing
+   */
+  replayed?: boolean;
+};
+
+export type EventsOpts = {
+  address?: string;
+  key?: string;
+  /**
+   * Event types, or pools such as `'hub'` for all of its event types
+   */
+  types?: Array<ConnEventType | ConnEventPool>;
+  /**
+   * Emit the current contents of the pools first, as `db:remembered`,
+   * `hub:connecting`/`hub:connected`/`hub:disconnecting` and
+   * `staging:staged` events with `replayed: true`
+   */
+  replay?: boolean;
+};
+
+function errorToString(err: any): string {
+  if (!err) return 'unknown error';
+  return String(err.message || err);
+}
+
+function matches(event: ConnEvent, opts: EventsOpts) {
+  if (opts.address && event.address !== opts.address) return false;
+  if (opts.key && event.key !== opts.key) return false;
+  if (opts.types) {
+    const pool = event.type.split(':')[0];
+    return opts.types.some(type => type === event.type || type === pool);
+  }
+  return true;
+}
+
+/**
+ * Fine-grained events about every address in ConnDB, ConnHub and
+ * ConnStaging, plus those emitted by the scheduler, in one stream.
+ */
+export class ConnEvents {
+  private readonly db: ConnDB;
+  private readonly hub: ConnHub;
+  private readonly staging: ConnStaging;
+  private readonly env: Environment;
+  private readonly notify: any;
+  private readonly drains: Array<any>;
+  /**
+   * Feed IDs of addresses, so that removals can be filtered by key
+   */
+  private readonly dbKeys: Map<string, string>;
+  private readonly stagingKeys: Map<string, string>;
+
+  constructor(
+    db: ConnDB,
+    hub: ConnHub,
+    staging: ConnStaging,
+    env: Environment,
+  ) {
+    this.db = db;
+    this.hub = hub;
+    this.staging = staging;
+    this.env = env;
+    this.notify = Notify();
+    this.dbKeys = new Map();
+    this.stagingKeys = new Map();
+
+    const dbDrain = pull.drain((ev: DBEvent) => this.onDBEvent(ev));
+    const hubDrain = pull.drain((ev: HubEvent) => this.onHubEvent(ev));
+    const stagingDrain = pull.drain((ev: StagingEvent) =>
+      this.onStagingEvent(ev),
+    );
+    pull(db.listen(), dbDrain);
+    pull(hub.listen(), hubDrain);
+    pull(staging.listen(), stagingDrain);
+    this.drains = [dbDrain, hubDrain, stagingDrain];
+  }
+
+  private onDBEvent(ev: DBEvent) {
+    const {address} = ev;
+    if (ev.type === 'delete') {
+      const key = this.dbKeys.get(address);
+      this.dbKeys.delete(address);
+      this.emit({type: 'db:forgotten', address, key, timestamp: this.now()});
+      return;
+    }
+    const data = this.db.get(address);
+    const key = data && data.key;
+    if (key) this.dbKeys.set(address, key);
+    this.emit({
+      type: ev.type === 'insert' ? 'db:remembered' : 'db:updated',
+      address,
+      key,
+      data,
+      timestamp: this.now(),
+    });
+  }
+
+  private onHubEvent(ev: HubEvent) {
+    const data = this.hub.getState(ev.address)
+      ? this.hubData(ev.address)
+      : undefined;
+    const event: ConnEvent = {
+      type: ('hub:' + ev.type) as ConnEventType,
+      address: ev.address,
+      key: ev.key || (data && data.key),
+      data,
+      timestamp: this.now(),
+    };
+    if (ev.type === 'connecting-failed' || ev.type === 'disconnecting-failed') {
+      event.error = errorToString(ev.details);
+    }
+    this.emit(event);
+  }
+
+  private onStagingEvent(ev: StagingEvent) {
+    const {address} = ev;
+    if (ev.type === 'unstaged') {
+      const key = this.stagingKeys.get(address);
+      this.stagingKeys.delete(address);
+      this.emit({
+        type: 'staging:unstaged',
+        address,
+        key,
+        timestamp: this.now(),
+      });
+      return;
+    }
+    const data = this.staging.get(address);
+    const key = data && data.key;
+    if (key) this.stagingKeys.set(address, key);
+    this.emit({
+      type: 'staging:staged',
+      address,
+      key,
+      data,
+      timestamp: this.now(),
+    });
+  }
+
+  /**
+   * ConnHub data without functions such as `disconnect`
+   */
+  private hubData(address: string) {
+    for (const [addr, data] of this.hub.entries()) {
+      if (addr !== address) continue;
+      const {disconnect, ...rest} = data;
+      return rest;
+    }
+    return undefined;
+  }
+
+  private now() {
+    return this.env.now();
+  }
+
+  private replay(): Array<ConnEvent> {
+    const timestamp = this.now();
+    const events: Array<ConnEvent> = [];
+    for (const [address, data] of this.db.entries()) {
+      const key = data.key;
+      events.push({type: 'db:remembered', address, key, data, timestamp});
+    }
+    for (const [address, {disconnect, ...data}] of this.hub.entries()) {
+      const type = ('hub:' + data.state) as ConnEventType;
+      events.push({type, address, key: data.key, data, timestamp});
+    }
+    for (const [address, data] of this.staging.entries()) {
+      const key = data.key;
+      events.push({type: 'staging:staged', address, key, data, timestamp});
+    }
+    return events.map(event => ({...event, replayed: true}));
+  }
+
+  /**
+   * Used by the scheduler, for `scheduler:decision` events
+   */
+  public emit(event: ConnEvent) {
+    this.notify(event);
+  }
+
+  public listen(opts: EventsOpts = {}) {
+    // Subscribe before replaying, so that no event is missed in between
+    const live = pull(
+      this.notify.listen(),
+      pull.filter((event: ConnEvent) => matches(event, opts)),
+    );
+    if (!opts.replay) return live;
+    const replayed = this.replay().filter(event => matches(event, opts));
+    return cat([pull.values(replayed), live]);
+  }
+
+  public close() {
+    for (const drain of this.drains) drain.abort();
+    this.notify.end();
+  }
+}
@@ -0,0 +1,205 @@
+import ConnDB = require('ssb-conn-db');
+import ConnHub = require('ssb-conn-hub');
+import {AddressData} from 'ssb-conn-db/lib/types';
+import {FeedId} from 'ssb-typescript';
+import {Environment} from './environment';
+const debug = require('debug')('ssb:conn:gc');
+
+export type GCConfig = {
+  /**
+   * Milliseconds between each collection, or 0 to only collect on demand,
+   * not even on startup
+   */
+  interval: number;
+  /**
+   * Remove addresses not successfully connected for this long (ms)
+   */
+  maxAge: number | null;
+  /**
+   * Remove addresses that failed this many times in a row
+   */
+  maxFailures: number | null;
+  /**
+   * Keep at most this many addresses, removing the least recently used
+   */
+  maxEntries: number | null;
+  /**
+   * Never remove addresses with `source: 'seed'`
+   */
+  keepSeeds: boolean;
+  /**
+   * Never remove addresses of feeds we follow
+   */
+  keepFollowed: boolean;
+};
+
+export type GCReason = 'max-failures' | 'max-age' | 'max-entries';
+
+export type GCResult = {
+  dryRun: boolean;
+  timestamp: number;
+  removed: Array<{address: string; key?: string; reason: GCReason}>;
+};
+
+export type GCOpts = {
+  /**
+   * Only report what would be removed
+   */
+  dryRun?: boolean;
+};
+
+const day = 24 * 60 * 60e3;
+
+export const DEFAULT_GC_CONFIG: Readonly<GCConfig> = {
+  interval: 60 * 60e3,
+  maxAge: 180 * day,
+  maxFailures: 100,
+  maxEntries: 5000,
+  keepSeeds: true,
+  keepFollowed: true,
+};
+
+export function validateGC(config: any): string[] {
+  if (config === undefined) return [];
+  if (!config || typeof config !== 'object') return ['should be an object'];
+  const errors: Array<string> = [];
+  if (
+    config.interval !== undefined &&
+    !(typeof config.interval === 'number' && config.interval >= 0)
+  ) {
+    errors.push('interval should be a duration');
+  }
+  for (const name of ['maxAge', 'maxFailures', 'maxEntries']) {
+    const value = config[name];
+    if (value === undefined || value === null) continue;
+    if (!(typeof value === 'number' && value >= 0)) {
+      errors.push(`${name} should be a non-negative number or null`);
+    }
+  }
+  for (const name of ['keepSeeds', 'keepFollowed']) {
+    const value = config[name];
+    if (value !== undefined && typeof value !== 'boolean') {
+      errors.push(`${name} should be a boolean`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * When the address was last connected to, or a best guess for entries stored
+ * before `lastConnected` was tracked, or null if unknown
+ */
+function lastSuccess(data: AddressData): number | null {
+  if (data.lastConnected) return data.lastConnected;
+  const hasConnected = !!data.duration && data.duration.mean > 0;
+  if (hasConnected) return data.stateChange || null;
+  return data.birth || null;
+}
+
+function isOlderThan(data: AddressData, maxAge: number, now: number) {
+  const last = lastSuccess(data);
+  // We cannot tell how old the entry is, so it is not removed
+  if (last === null) return false;
+  return last + maxAge < now;
+}
+
+function lastUsed(data: AddressData) {
+  const {lastConnected, stateChange, birth} = data;
+  return Math.max(lastConnected || 0, stateChange || 0, birth || 0);
+}
+
+/**
+ * Removes from ConnDB the addresses that are unlikely to be useful anymore,
+ * according to the configured policies.
+ */
+export class ConnGC {
+  private readonly db: ConnDB;
+  private readonly hub: ConnHub;
+  private readonly env: Environment;
+  private readonly hopsOf: (key: FeedId) => number | undefined;
+  public readonly config: GCConfig;
+  private readonly interval: any;
+
+  constructor(
+    db: ConnDB,
+    hub: ConnHub,
+    env: Environment,
+    hopsOf: (key: FeedId) => number | undefined,
+    config: Partial<GCConfig> = {},
+  ) {
+    const errors = validateGC(config);
+    if (errors.length > 0) {
+      throw new Error('Invalid config.conn.gc:\n  - ' + errors.join('\n  - '));
+    }
+    this.db = db;
+    this.hub = hub;
+    this.env = env;
+    this.hopsOf = hopsOf;
+    this.config = {...DEFAULT_GC_CONFIG, ...config};
+
+    if (this.config.interval > 0) {
+      this.interval = env.setInterval(() => this.run(), this.config.interval);
+      if (this.interval.unref) this.interval.unref();
+    }
+  }
+
+  private isKept(address: string, data: AddressData) {
+    if (this.hub.getState(address)) return true;
+    if (data.pinned === true) return true;
+    if (this.config.keepSeeds && data.source === 'seed') return true;
+    if (this.config.keepFollowed && data.key) {
+      const hops = this.hopsOf(data.key);
+      if (typeof hops === 'number' && hops > 0 && hops <= 1) return true;
+    }
+    return false;
+  }
+
+  public run(opts: GCOpts = {}): GCResult {
+    const {maxAge, maxFailures, maxEntries} = this.config;
+    const now = this.env.now();
+    const removed: GCResult['removed'] = [];
+    const remaining: Array<[string, AddressData]> = [];
+    let total = 0;
+
+    for (const [address, data] of this.db.entries()) {
+      if (this.isKept(address, data)) {
+        total += 1;
+        continue;
+      }
+      let reason: GCReason | null = null;
+      if (maxFailures !== null && (data.failure || 0) >= maxFailures) {
+        reason = 'max-failures';
+      } else if (maxAge !== null && isOlderThan(data, maxAge, now)) {
+        reason = 'max-age';
+      }
+      if (reason) {
+        removed.push({address, key: data.key, reason});
+      } else {
+        remaining.push([address, data]);
+        total += 1;
+      }
+    }
+
+    if (maxEntries !== null && total > maxEntries) {
+      remaining
+        .sort((a, b) => lastUsed(a[1]) - lastUsed(b[1]))
+        .slice(0, total - maxEntries)
+        .forEach(([address, data]) => {
+          removed.push({address, key: data.key, reason: 'max-entries'});
+        });
+    }
+
+    const dryRun = !!opts.dryRun;
+    if (!dryRun) {
+      for (const {address, reason} of removed) {
+        debug('removing %s from ConnDB because of %s', address, reason);
+        this.db.delete(address);
+      }
+    }
+    return {dryRun, timestamp: now, removed};
+  }
+
+  public close() {
+    if (this.interval) this.env.clearInterval(this.interval);
+  }
+}
@@ -2,6 +2,8 @@ import {ListenEvent as HubEvent} from 'ssb-conn-hub/lib/types';
 import {Callback, Peer} from './types';
 import {plugin, muxrpc} from 'secret-stack-decorators';
 import {CONN} from './conn';
+import {privacyRefusal} from './privacy';
+import {toDiscoveryKind} from './toggles';
 const pull = require('pull-stream');
 const Notify = require('pull-notify');
 const ref = require('ssb-ref');
@@ -143,6 +145,11 @@ export class Gossip {
   }
 
   private idToAddr(id: any) {
+    // Prefer the best address according to the transport preference
+    const query = this.conn.query();
+    const byKey = query.peersByKey().find(([key]) => key === id);
+    const best = byKey ? byKey[1].addresses[0] : null;
+    if (best && query.transports.isAllowed(best)) return best;
     const addr = this.conn.db().getAddressForId(id as string) as string;
     if (!addr) {
       throw new Error('no known address for peer:' + id);
@@ -219,6 +226,8 @@ export class Gossip {
     } catch (err) {
       return cb(err);
     }
+    const refusal = privacyRefusal(this.conn.privacy(), addressString);
+    if (refusal) return cb(refusal);
 
     this.add(addressString, 'manual');
     const stagedData = this.conn.staging().get(addressString) || {};
@@ -257,6 +266,8 @@ export class Gossip {
     console.error('DEPRECATED gossip.add() was called. Use ssb-conn instead');
     const [addressString, parsed] = validateAddr(addr);
     if (parsed.key === this.ssb.id) return;
+    if (this.conn.isBanned(addressString, parsed.key)) return;
+    if (!this.conn.isAllowed(addressString, parsed.key)) return;
 
     if (source === 'local') {
       console.error(
@@ -316,13 +327,52 @@ export class Gossip {
     this.conn.hub().reset();
   };
 
+  /**
+   * Returns whether the type was enabled or disabled, legacy callers may use
+   * types that are not supported anymore, such as "friends"
+   */
+  private setEnabled(type: string, enabled: boolean): boolean {
+    const method = enabled ? 'enable' : 'disable';
+    const scheduler = this.ssb.connScheduler;
+    if (!scheduler || !scheduler.setEnabled) {
+      console.error(
+        'UNSUPPORTED gossip.' +
+          method +
+          '("' +
+          type +
+          '") was ignored, the scheduler does not support it',
+      );
+      return false;
+    }
+    try {
+      toDiscoveryKind(type);
+    } catch (err) {
+      console.error(
+        'UNSUPPORTED gossip.' + method + '("' + type + '") was ignored',
+      );
+      return false;
+    }
+    scheduler.setEnabled(type, enabled);
+    return true;
+  }
+
   @muxrpc('sync')
-  public enable = (type: string) => {
-    console.error('UNSUPPORTED gossip.enable("' + type + '") was ignored');
+  public enable = (type: string = 'global') => {
+    console.error(
+      'DEPRECATED gossip.enable() was called. ' +
+        'Use ssb.connScheduler.setEnabled() instead',
+    );
+    if (!this.setEnabled(type, true)) return;
+    return 'enabled gossip type ' + type;
   };
 
   @muxrpc('sync')
-  public disable = (type: string) => {
-    console.error('UNSUPPORTED gossip.disable("' + type + '") was ignored');
+  public disable = (type: string = 'global') => {
+    console.error(
+      'DEPRECATED gossip.disable() was called. ' +
+        'Use ssb.connScheduler.setEnabled() instead',
+    );
+    if (!this.setEnabled(type, false)) return;
+    return 'disabled gossip type ' + type;
   };
 }
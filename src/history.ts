@@ -0,0 +1,206 @@
+import ConnHub = require('ssb-conn-hub');
+import {ListenEvent as HubEvent} from 'ssb-conn-hub/lib/types';
+import {Environment} from './environment';
+import {JsonFile} from './json-file';
+const pull = require('pull-stream');
+
+export type HistoryEventType =
+  | 'connecting'
+  | 'connected'
+  | 'failed'
+  | 'disconnecting'
+  | 'disconnected';
+
+export type HistoryEvent = {
+  type: HistoryEventType;
+  timestamp: number;
+  initiator: 'local' | 'remote';
+  error?: string;
+};
+
+export type HistoryOpts = {
+  /**
+   * Only the most recent `limit` events
+   */
+  limit?: number;
+  /**
+   * Only events at or after this timestamp
+   */
+  since?: number;
+  types?: Array<HistoryEventType>;
+};
+
+export type HistoryConfig = {
+  maxAge: number;
+  maxEvents: number;
+  maxAddresses: number;
+};
+
+const day = 24 * 60 * 60e3;
+
+export const DEFAULT_HISTORY_CONFIG: Readonly<HistoryConfig> = {
+  maxAge: 7 * day,
+  maxEvents: 100,
+  maxAddresses: 500,
+};
+
+export function validateHistory(config: any): string[] {
+  if (config === undefined) return [];
+  if (!config || typeof config !== 'object') return ['should be an object'];
+  const errors: Array<string> = [];
+  for (const name of ['maxAge', 'maxEvents', 'maxAddresses']) {
+    const value = config[name];
+    if (value !== undefined && !(typeof value === 'number' && value >= 0)) {
+      errors.push(`${name} should be a non-negative number`);
+    }
+  }
+  return errors;
+}
+
+type SavedHistory = {[address: string]: Array<HistoryEvent>};
+
+/**
+ * The last `count` items, unlike `slice(-count)` which returns all of them
+ * when `count` is 0
+ */
+function lastItems<T>(items: Array<T>, count: number): Array<T> {
+  return count > 0 ? items.slice(-count) : [];
+}
+
+function errorToString(err: any): string {
+  if (!err) return 'unknown error';
+  return String(err.message || err);
+}
+
+/**
+ * A bounded and persisted log of connection events, per address.
+ */
+export class ConnHistory {
+  private readonly file: JsonFile<SavedHistory>;
+  private readonly env: Environment;
+  private readonly config: HistoryConfig;
+  private readonly logs: Map<string, Array<HistoryEvent>>;
+  private readonly pruneInterval: any;
+  private readonly drain: any;
+
+  constructor(
+    hub: ConnHub,
+    file: JsonFile<SavedHistory>,
+    env: Environment,
+    config: Partial<HistoryConfig> = {},
+  ) {
+    const errors = validateHistory(config);
+    if (errors.length > 0) {
+      throw new Error(
+        'Invalid config.conn.history:\n  - ' + errors.join('\n  - '),
+      );
+    }
+    this.file = file;
+    this.env = env;
+    this.config = {...DEFAULT_HISTORY_CONFIG, ...config};
+    this.logs = new Map();
+
+    const saved = file.load();
+    if (saved && typeof saved === 'object') {
+      for (const address of Object.keys(saved)) {
+        if (Array.isArray(saved[address])) {
+          this.logs.set(address, saved[address]);
+        }
+      }
+      this.prune();
+    }
+
+    this.drain = pull.drain((ev: HubEvent) => this.onHubEvent(ev));
+    pull(hub.listen(), this.drain);
+    this.pruneInterval = env.setInterval(() => this.prune(), 60 * 60e3);
+    if (this.pruneInterval.unref) this.pruneInterval.unref();
+  }
+
+  private onHubEvent(ev: HubEvent) {
+    const log = this.logs.get(ev.address) || [];
+    const prev = log[log.length - 1];
+    const timestamp = this.env.now();
+    if (ev.type === 'connecting' || ev.type === 'disconnecting') {
+      this.record(ev.address, {type: ev.type, timestamp, initiator: 'local'});
+    } else if (ev.type === 'connecting-failed') {
+      this.record(ev.address, {
+        type: 'failed',
+        timestamp,
+        initiator: 'local',
+        error: errorToString(ev.details),
+      });
+    } else if (ev.type === 'connected') {
+      const remote = !!ev.details && ev.details.isClient === false;
+      this.record(ev.address, {
+        type: 'connected',
+        timestamp,
+        initiator: remote ? 'remote' : 'local',
+      });
+    } else if (ev.type === 'disconnected') {
+      const local = !!prev && prev.type === 'disconnecting';
+      this.record(ev.address, {
+        type: 'disconnected',
+        timestamp,
+        initiator: local ? 'local' : 'remote',
+      });
+    }
+  }
+
+  private record(address: string, event: HistoryEvent) {
+    const log = this.logs.get(address) || [];
+    log.push(event);
+    if (log.length > this.config.maxEvents) {
+      log.splice(0, log.length - this.config.maxEvents);
+    }
+    // Re-insert to keep the Map ordered from least to most recently active
+    this.logs.delete(address);
+    this.logs.set(address, log);
+    if (this.logs.size > this.config.maxAddresses) {
+      const oldest = this.logs.keys().next().value;
+      this.logs.delete(oldest);
+    }
+    this.save();
+  }
+
+  private save() {
+    const record: SavedHistory = {};
+    for (const [address, log] of this.logs) record[address] = log;
+    this.file.write(record);
+  }
+
+  public prune() {
+    const oldest = this.env.now() - this.config.maxAge;
+    for (const [address, log] of this.logs) {
+      const fresh = lastItems(
+        log.filter(ev => ev.timestamp >= oldest),
+        this.config.maxEvents,
+      );
+      if (fresh.length === 0) this.logs.delete(address);
+      else if (fresh.length !== log.length) this.logs.set(address, fresh);
+    }
+    while (this.logs.size > this.config.maxAddresses) {
+      this.logs.delete(this.logs.keys().next().value);
+    }
+    this.save();
+  }
+
+  public get(address: string, opts: HistoryOpts = {}): Array<HistoryEvent> {
+    let events = (this.logs.get(address) || []).slice();
+    if (typeof opts.since === 'number') {
+      events = events.filter(ev => ev.timestamp >= opts.since!);
+    }
+    if (Array.isArray(opts.types)) {
+      events = events.filter(ev => opts.types!.indexOf(ev.type) >= 0);
+    }
+    if (typeof opts.limit === 'number') {
+      events = lastItems(events, opts.limit);
+    }
+    return events;
+  }
+
+  public close() {
+    this.env.clearInterval(this.pruneInterval);
+    this.drain.abort();
+    this.file.flush();
+  }
+}
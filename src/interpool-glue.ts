@@ -2,20 +2,29 @@ import ConnDB = require('ssb-conn-db');
 import ConnHub = require('ssb-conn-hub');
 import ConnStaging = require('ssb-conn-staging');
 import {ListenEvent as HubEvent} from 'ssb-conn-hub/lib/types';
+import {Environment} from './environment';
+import {createPinger, LatencyTracker} from './latency';
+import {updateOrSkip} from './schema';
 const pull = require('pull-stream');
 const stats = require('statistics');
-const ping = require('pull-ping');
 
-export function interpoolGlue(db: ConnDB, hub: ConnHub, staging: ConnStaging) {
+export function interpoolGlue(
+  db: ConnDB,
+  hub: ConnHub,
+  staging: ConnStaging,
+  env: Environment,
+  latency: LatencyTracker,
+) {
   function setupPing(address: string, rpc: any) {
-    const PING_TIMEOUT = 5 * 6e4; // 5 minutes
-    const pp = ping({serve: true, timeout: PING_TIMEOUT}, () => {});
-    db.update(address, {ping: {rtt: pp.rtt, skew: pp.skew}});
+    const timeout = latency.config.pingTimeout;
+    const pp = createPinger(env, timeout, (rtt, skew) =>
+      latency.record(address, rtt, skew),
+    );
     pull(
       pp,
-      rpc.gossip.ping({timeout: PING_TIMEOUT}, (err: any) => {
+      rpc.gossip.ping({timeout}, (err: any) => {
         if (err && err.name === 'TypeError') {
-          db.update(address, (prev: any) => ({
+          updateOrSkip(db, address, (prev: any) => ({
             ping: {...(prev.ping || {}), fail: true},
           }));
         }
@@ -31,15 +40,15 @@ export function interpoolGlue(db: ConnDB, hub: ConnHub, staging: ConnStaging) {
     for (const [addr, data] of staging.entries()) {
       if (data.key && data.key === ev.key) staging.unstage(addr);
     }
-    db.update(address, {stateChange: Date.now()});
+    updateOrSkip(db, address, {stateChange: env.now()});
     const dbData = db.get(address);
     hub.update(address, {...dbData, ...stagedData});
   }
 
   function onConnectingFailed(ev: HubEvent) {
-    db.update(ev.address, (prev: any) => ({
+    updateOrSkip(db, ev.address, (prev: any) => ({
       failure: (prev.failure || 0) + 1,
-      stateChange: Date.now(),
+      stateChange: env.now(),
       duration: stats(prev.duration, 0),
     }));
   }
@@ -51,27 +60,34 @@ export function interpoolGlue(db: ConnDB, hub: ConnHub, staging: ConnStaging) {
     for (const [addr, data] of staging.entries()) {
       if (data.key && data.key === ev.key) staging.unstage(addr);
     }
-    db.update(address, {stateChange: Date.now(), failure: 0});
+    updateOrSkip(db, address, {
+      stateChange: env.now(),
+      lastConnected: env.now(),
+      failure: 0,
+    });
     const dbData = db.get(address);
-    hub.update(address, {...dbData, ...stagedData});
-    if (ev.details.isClient) setupPing(address, ev.details.rpc);
+    // Inbound peers may not be in ConnDB, so the hub keeps the connect time
+    hub.update(address, {...dbData, ...stagedData, connectedAt: env.now()});
+    // Both sides ping each other, so that both get latency samples
+    if (ev.details.rpc && ev.details.rpc.gossip) {
+      setupPing(address, ev.details.rpc);
+    }
   }
 
   function onDisconnecting(ev: HubEvent) {
-    db.update(ev.address, {stateChange: Date.now()});
+    updateOrSkip(db, ev.address, {stateChange: env.now()});
   }
 
   function onDisconnectingFailed(ev: HubEvent) {
-    db.update(ev.address, {stateChange: Date.now()});
+    updateOrSkip(db, ev.address, {stateChange: env.now()});
   }
 
   function onDisconnected(ev: HubEvent) {
-    db.update(ev.address, (prev: any) => ({
-      stateChange: Date.now(),
-      duration: stats(prev.duration, Date.now() - prev.stateChange),
+    updateOrSkip(db, ev.address, (prev: any) => ({
+      stateChange: env.now(),
+      duration: stats(prev.duration, env.now() - prev.stateChange),
     }));
-    // TODO ping this address to see if it's worth re-staging it
-    // But how to "ping" without multiserver-connecting to them?
+    // ConnProber will check later whether this address is still reachable
   }
 
   pull(
@@ -0,0 +1,95 @@
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+const debug = require('debug')('ssb:conn:json-file');
+
+/**
+ * Where to store a file of ours, next to conn.json
+ */
+export function storagePath(config: any, filename: string) {
+  const dir = config.path || path.join(os.homedir(), '.ssb');
+  return path.join(dir, filename);
+}
+
+/**
+ * A JSON file that is read once and written with a debounce.
+ */
+export class JsonFile<T> {
+  private readonly path: string;
+  private readonly writeTimeout: number;
+  private pending: T | undefined;
+  private scheduledWrite: NodeJS.Timeout | null;
+  /**
+   * Increases with every write to disk, so that an older write does not
+   * replace a newer one
+   */
+  private generation: number;
+
+  constructor(filePath: string, writeTimeout: number = 1e3) {
+    this.path = filePath;
+    this.writeTimeout = writeTimeout;
+    this.pending = undefined;
+    this.scheduledWrite = null;
+    this.generation = 0;
+  }
+
+  /**
+   * Returns undefined if the file does not exist or cannot be parsed
+   */
+  public load(): T | undefined {
+    if (!fs.existsSync(this.path)) return undefined;
+    try {
+      return JSON.parse(fs.readFileSync(this.path, 'utf-8'));
+    } catch (err) {
+      debug('failed to load %s: %s', this.path, err);
+      return undefined;
+    }
+  }
+
+  public write(data: T) {
+    this.pending = data;
+    if (this.scheduledWrite) return;
+    this.scheduledWrite = setTimeout(() => {
+      this.scheduledWrite = null;
+      this.writeNow(err => {
+        if (err) debug('failed to write %s: %s', this.path, err);
+      });
+    }, this.writeTimeout);
+    if (this.scheduledWrite.unref) this.scheduledWrite.unref();
+  }
+
+  private writeNow(cb: (err?: any) => void) {
+    if (this.pending === undefined) return cb();
+    const json = JSON.stringify(this.pending);
+    this.pending = undefined;
+    const generation = ++this.generation;
+    const tmpPath = this.path + '~' + generation;
+    fs.writeFile(tmpPath, json, err => {
+      if (err) return cb(err);
+      // flush() may have written newer data in the meantime
+      if (generation !== this.generation) return fs.unlink(tmpPath, cb);
+      try {
+        fs.renameSync(tmpPath, this.path);
+        cb();
+      } catch (renameErr) {
+        cb(renameErr);
+      }
+    });
+  }
+
+  /**
+   * Synchronously writes any pending data, e.g. when closing
+   */
+  public flush() {
+    if (this.scheduledWrite) clearTimeout(this.scheduledWrite);
+    this.scheduledWrite = null;
+    if (this.pending === undefined) return;
+    this.generation += 1;
+    try {
+      fs.writeFileSync(this.path, JSON.stringify(this.pending));
+    } catch (err) {
+      debug('failed to write %s: %s', this.path, err);
+    }
+    this.pending = undefined;
+  }
+}
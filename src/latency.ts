@@ -0,0 +1,286 @@
+import ConnDB = require('ssb-conn-db');
+import ConnHub = require('ssb-conn-hub');
+import {ListenEvent as DBEvent} from 'ssb-conn-db/lib/types';
+import {Environment} from './environment';
+import {updateOrSkip} from './schema';
+const pull = require('pull-stream');
+const Pushable = require('pull-pushable');
+const stats = require('statistics');
+
+export type Percentiles = {
+  p50: number;
+  p95: number;
+  p99: number;
+};
+
+export type LatencySummary = {
+  /**
+   * Ping round-trip times, in milliseconds
+   */
+  rtt: Percentiles;
+  /**
+   * Absolute clock skew between us and the peer, in milliseconds
+   */
+  skew: Percentiles;
+  samples: number;
+  updated: number;
+};
+
+export type LatencyConfig = {
+  /**
+   * How many of the latest samples to keep, per address
+   */
+  window: number;
+  /**
+   * Milliseconds to wait before answering the peer's ping with our own
+   */
+  pingTimeout: number;
+  /**
+   * Milliseconds since the latest sample of an address until its window is
+   * dropped
+   */
+  maxAge: number;
+};
+
+export const DEFAULT_LATENCY_CONFIG: Readonly<LatencyConfig> = {
+  window: 100,
+  pingTimeout: 5 * 60e3,
+  maxAge: 24 * 60 * 60e3,
+};
+
+export type LatencyLimits = {
+  /**
+   * Maximum median round-trip time, in milliseconds
+   */
+  maxRtt?: number;
+  /**
+   * Maximum median absolute clock skew, in milliseconds
+   */
+  maxSkew?: number;
+  /**
+   * How many samples are needed before enforcing the limits
+   */
+  minSamples: number;
+};
+
+export function validateLatency(config: any): string[] {
+  if (config === undefined) return [];
+  if (!config || typeof config !== 'object') return ['should be an object'];
+  const errors: Array<string> = [];
+  if (
+    config.window !== undefined &&
+    !(Number.isInteger(config.window) && config.window > 0)
+  ) {
+    errors.push('window should be a positive integer');
+  }
+  for (const name of ['pingTimeout', 'maxAge']) {
+    const value = config[name];
+    if (value !== undefined && !(typeof value === 'number' && value >= 0)) {
+      errors.push(`${name} should be a duration`);
+    }
+  }
+  return errors;
+}
+
+export function validateLatencyLimits(opts: any): string[] {
+  if (opts === undefined || opts === null) return [];
+  if (typeof opts !== 'object') return ['should be an object'];
+  const errors: Array<string> = [];
+  for (const name of ['maxRtt', 'maxSkew', 'minSamples']) {
+    const value = opts[name];
+    if (value !== undefined && !(typeof value === 'number' && value >= 0)) {
+      errors.push(`${name} should be a non-negative number`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Reads `config.conn.scheduler.latency`, or returns null if not configured
+ */
+export function loadLatencyLimits(config: any): LatencyLimits | null {
+  const scheduler = (config.conn && config.conn.scheduler) || {};
+  const opts = scheduler.latency;
+  if (opts === undefined || opts === null) return null;
+  const errors = validateLatencyLimits(opts);
+  if (errors.length > 0) {
+    throw new Error(
+      'Invalid config.conn.scheduler.latency:\n  - ' + errors.join('\n  - '),
+    );
+  }
+  return {minSamples: 5, ...opts};
+}
+
+/**
+ * Whether the latency summary shows that the median round-trip time or clock
+ * skew has been above the limits, over enough samples.
+ */
+export function exceedsLatencyLimits(
+  summary: LatencySummary | undefined,
+  limits: LatencyLimits,
+) {
+  if (!summary || summary.samples < limits.minSamples) return false;
+  const {maxRtt, maxSkew} = limits;
+  if (typeof maxRtt === 'number' && summary.rtt.p50 > maxRtt) return true;
+  if (typeof maxSkew === 'number' && summary.skew.p50 > maxSkew) return true;
+  return false;
+}
+
+function percentile(sorted: Array<number>, p: number) {
+  const i = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(Math.max(i, 0), sorted.length - 1)];
+}
+
+function percentiles(values: Array<number>): Percentiles {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return {
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+  };
+}
+
+/**
+ * A duplex stream that speaks the pull-ping protocol, serving the first ping,
+ * and that reports every round-trip sample.
+ */
+export function createPinger(
+  env: Environment,
+  timeout: number,
+  onSample: (rtt: number, skew: number) => void,
+) {
+  const source = Pushable();
+  let serving = false;
+  let ts = 0;
+  let timer: any = null;
+
+  function ping() {
+    serving = true;
+    ts = env.now();
+    source.push(ts);
+  }
+
+  ping();
+
+  return {
+    source,
+    sink: pull.drain(
+      (remoteTs: number) => {
+        if (serving) {
+          const ts2 = env.now();
+          serving = false;
+          onSample(ts2 - ts, remoteTs - (ts2 + ts) / 2);
+        } else {
+          // Volley their timestamp back, and serve the next ping ourselves
+          ts = env.now();
+          source.push(ts);
+          timer = env.setTimeout(ping, timeout);
+        }
+      },
+      () => {
+        env.clearTimeout(timer);
+        source.end();
+      },
+    ),
+  };
+}
+
+type SampleWindow = {
+  rtt: Array<number>;
+  skew: Array<number>;
+  /**
+   * Timestamp of the latest sample
+   */
+  updated: number;
+};
+
+/**
+ * Rolling windows of ping samples per address, summarized as percentiles in
+ * ConnHub and ConnDB as `latency`, next to the cumulative `ping` statistics.
+ * Windows are dropped when the address is removed from ConnDB, or when it has
+ * not been sampled for `maxAge`.
+ */
+export class LatencyTracker {
+  private readonly db: ConnDB;
+  private readonly hub: ConnHub;
+  private readonly env: Environment;
+  public readonly config: LatencyConfig;
+  private readonly samples: Map<string, SampleWindow>;
+  private readonly drain: any;
+
+  constructor(
+    db: ConnDB,
+    hub: ConnHub,
+    env: Environment,
+    config: Partial<LatencyConfig> = {},
+  ) {
+    const errors = validateLatency(config);
+    if (errors.length > 0) {
+      throw new Error(
+        'Invalid config.conn.latency:\n  - ' + errors.join('\n  - '),
+      );
+    }
+    this.db = db;
+    this.hub = hub;
+    this.env = env;
+    this.config = {...DEFAULT_LATENCY_CONFIG, ...config};
+    this.samples = new Map();
+
+    this.drain = pull.drain((ev: DBEvent) => {
+      if (ev.type === 'delete') this.samples.delete(ev.address);
+    });
+    pull(db.listen(), this.drain);
+  }
+
+  private pruneOld(now: number) {
+    for (const [address, window] of this.samples) {
+      if (window.updated + this.config.maxAge < now) {
+        this.samples.delete(address);
+      }
+    }
+  }
+
+  public record(address: string, rtt: number, skew: number) {
+    const now = this.env.now();
+    this.pruneOld(now);
+    const window = this.samples.get(address) || {rtt: [], skew: [], updated: 0};
+    window.updated = now;
+    window.rtt.push(rtt);
+    window.skew.push(Math.abs(skew));
+    if (window.rtt.length > this.config.window) {
+      window.rtt.shift();
+      window.skew.shift();
+    }
+    this.samples.set(address, window);
+
+    const latency = this.get(address)!;
+    this.hub.update(address, {latency});
+    updateOrSkip(this.db, address, (prev: any) => {
+      const prevPing = prev.ping || {};
+      return {
+        latency,
+        ping: {
+          ...prevPing,
+          rtt: stats(prevPing.rtt, rtt),
+          skew: stats(prevPing.skew, skew),
+        },
+      };
+    });
+  }
+
+  public get(address: string): LatencySummary | undefined {
+    const window = this.samples.get(address);
+    if (!window || window.rtt.length === 0) return undefined;
+    if (window.updated + this.config.maxAge < this.env.now()) return undefined;
+    return {
+      rtt: percentiles(window.rtt),
+      skew: percentiles(window.skew),
+      samples: window.rtt.length,
+      updated: window.updated,
+    };
+  }
+
+  public close() {
+    this.drain.abort();
+  }
+}
@@ -0,0 +1,359 @@
+import ConnDB = require('ssb-conn-db');
+import ConnHub = require('ssb-conn-hub');
+import ConnStaging = require('ssb-conn-staging');
+import {ListenEvent as HubEvent} from 'ssb-conn-hub/lib/types';
+import {Environment} from './environment';
+import {PrivacyMode} from './privacy';
+const pull = require('pull-stream');
+const cat = require('pull-cat');
+const Notify = require('pull-notify');
+
+export type Counts = {[name: string]: number};
+
+type Labels = {[name: string]: string};
+
+export type ConnStats = {
+  timestamp: number;
+  privacy: PrivacyMode | null;
+  peers: {
+    total: number;
+    byState: Counts;
+    byType: Counts;
+    bySource: Counts;
+  };
+  staged: {
+    total: number;
+    byType: Counts;
+  };
+  db: {
+    total: number;
+  };
+  attempts: {
+    total: number;
+    succeeded: number;
+    failed: number;
+    /**
+     * Ratio of settled attempts that succeeded, or null if none settled
+     */
+    successRate: number | null;
+    perMinute: number;
+  };
+  rtt: {
+    /**
+     * Mean ping round-trip time (ms) across connected peers, or null
+     */
+    mean: number | null;
+  };
+  scheduler: {
+    ticks: number;
+    lastTickDuration: number | null;
+    meanTickDuration: number | null;
+    maxTickDuration: number | null;
+  };
+};
+
+const minute = 60e3;
+
+/**
+ * Milliseconds to gather changes before notifying the new stats
+ */
+const UPDATE_DELAY = 100;
+
+function increment(counts: Counts, name: any) {
+  const key = typeof name === 'string' && name ? name : 'unknown';
+  counts[key] = (counts[key] || 0) + 1;
+}
+
+/**
+ * Live statistics computed from ConnHub events and the contents of the pools.
+ */
+export class ConnMetrics {
+  private readonly db: ConnDB;
+  private readonly hub: ConnHub;
+  private readonly staging: ConnStaging;
+  private readonly env: Environment;
+  private readonly privacy: PrivacyMode | null;
+  private readonly notify: any;
+  private readonly drains: Array<any>;
+  private listeners: number;
+  private scheduledUpdate: any;
+  private readonly recentAttempts: Array<number>;
+  private attempts: number;
+  private succeeded: number;
+  private failed: number;
+  private ticks: number;
+  private tickDurationSum: number;
+  private lastTickDuration: number | null;
+  private maxTickDuration: number | null;
+
+  constructor(
+    db: ConnDB,
+    hub: ConnHub,
+    staging: ConnStaging,
+    env: Environment,
+    privacy: PrivacyMode | null = null,
+  ) {
+    this.db = db;
+    this.hub = hub;
+    this.staging = staging;
+    this.env = env;
+    this.privacy = privacy;
+    this.notify = Notify();
+    this.listeners = 0;
+    this.scheduledUpdate = null;
+    this.recentAttempts = [];
+    this.attempts = 0;
+    this.succeeded = 0;
+    this.failed = 0;
+    this.ticks = 0;
+    this.tickDurationSum = 0;
+    this.lastTickDuration = null;
+    this.maxTickDuration = null;
+
+    const hubDrain = pull.drain((ev: HubEvent) => this.onHubEvent(ev));
+    const stagingDrain = pull.drain(() => this.update());
+    pull(hub.listen(), hubDrain);
+    pull(staging.listen(), stagingDrain);
+    this.drains = [hubDrain, stagingDrain];
+  }
+
+  private onHubEvent(ev: HubEvent) {
+    if (ev.type === 'connecting') {
+      this.attempts += 1;
+      this.recentAttempts.push(this.env.now());
+      this.forgetOldAttempts();
+    } else if (ev.type === 'connecting-failed') {
+      this.failed += 1;
+    } else if (ev.type === 'connected') {
+      // Only count connections that we initiated
+      if (!ev.details || ev.details.isClient !== false) this.succeeded += 1;
+    }
+    this.update();
+  }
+
+  /**
+   * Keeps only the attempts of the last minute, even if no one reads stats
+   */
+  private forgetOldAttempts() {
+    const now = this.env.now();
+    const recent = this.recentAttempts;
+    while (recent.length > 0 && recent[0] < now - minute) recent.shift();
+  }
+
+  /**
+   * Computing the stats walks every pool, so only do it once for a burst of
+   * changes, and only if someone is listening
+   */
+  private update() {
+    if (this.listeners === 0 || this.scheduledUpdate) return;
+    this.scheduledUpdate = this.env.setTimeout(() => {
+      this.scheduledUpdate = null;
+      if (this.listeners > 0) this.notify(this.stats());
+    }, UPDATE_DELAY);
+  }
+
+  public recordTick(duration: number) {
+    this.ticks += 1;
+    this.tickDurationSum += duration;
+    this.lastTickDuration = duration;
+    this.maxTickDuration = Math.max(this.maxTickDuration || 0, duration);
+    this.update();
+  }
+
+  public stats(): ConnStats {
+    const now = this.env.now();
+    this.forgetOldAttempts();
+
+    const byState: Counts = {};
+    const byType: Counts = {};
+    const bySource: Counts = {};
+    let total = 0;
+    let rttSum = 0;
+    let rttCount = 0;
+    for (const [address, data] of this.hub.entries()) {
+      const dbData = this.db.get(address) || {};
+      total += 1;
+      increment(byState, data.state);
+      increment(byType, data.type || data.inferredType);
+      increment(bySource, data.source || dbData.source);
+      const ping = dbData.ping || data.ping;
+      const connected = data.state === 'connected';
+      if (connected && ping && ping.rtt && ping.rtt.mean > 0) {
+        rttSum += ping.rtt.mean;
+        rttCount += 1;
+      }
+    }
+
+    const stagedByType: Counts = {};
+    let stagedTotal = 0;
+    for (const [, data] of this.staging.entries()) {
+      stagedTotal += 1;
+      increment(stagedByType, data.type);
+    }
+
+    const dbTotal = Array.from(this.db.entries()).length;
+
+    const settled = this.succeeded + this.failed;
+    return {
+      timestamp: now,
+      privacy: this.privacy,
+      peers: {total, byState, byType, bySource},
+      staged: {total: stagedTotal, byType: stagedByType},
+      db: {total: dbTotal},
+      attempts: {
+        total: this.attempts,
+        succeeded: this.succeeded,
+        failed: this.failed,
+        successRate: settled > 0 ? this.succeeded / settled : null,
+        perMinute: this.recentAttempts.length,
+      },
+      rtt: {mean: rttCount > 0 ? rttSum / rttCount : null},
+      scheduler: {
+        ticks: this.ticks,
+        lastTickDuration: this.lastTickDuration,
+        meanTickDuration:
+          this.ticks > 0 ? this.tickDurationSum / this.ticks : null,
+        maxTickDuration: this.maxTickDuration,
+      },
+    };
+  }
+
+  public liveStats() {
+    this.listeners += 1;
+    return pull(
+      cat([pull.values([this.stats()]), this.notify.listen()]),
+      pull.through(null, () => {
+        this.listeners -= 1;
+      }),
+    );
+  }
+
+  public close() {
+    for (const drain of this.drains) drain.abort();
+    if (this.scheduledUpdate) this.env.clearTimeout(this.scheduledUpdate);
+    this.scheduledUpdate = null;
+    this.notify.end();
+  }
+}
+
+function escapeLabel(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/"/g, '\\"');
+}
+
+/**
+ * Renders the stats in the Prometheus/OpenMetrics text exposition format.
+ */
+export function toOpenMetrics(stats: ConnStats): string {
+  const lines: Array<string> = [];
+
+  function metric(
+    name: string,
+    type: 'gauge' | 'counter',
+    help: string,
+    samples: Array<[Labels | null, number | null]>,
+  ) {
+    lines.push(`# HELP ${name} ${help}`);
+    lines.push(`# TYPE ${name} ${type}`);
+    const suffix = type === 'counter' ? '_total' : '';
+    for (const [labels, value] of samples) {
+      if (value === null) continue;
+      const labelText = labels
+        ? '{' +
+          Object.keys(labels)
+            .map(k => `${k}="${escapeLabel(labels[k])}"`)
+            .join(',') +
+          '}'
+        : '';
+      lines.push(`${name}${suffix}${labelText} ${value}`);
+    }
+  }
+
+  function labeled(label: string, counts: Counts) {
+    return Object.keys(counts).map(
+      name => [{[label]: name}, counts[name]] as [Labels, number],
+    );
+  }
+
+  metric('ssb_conn_privacy_mode', 'gauge', 'Privacy mode in use.', [
+    [{mode: stats.privacy || 'none'}, 1],
+  ]);
+  metric(
+    'ssb_conn_peers',
+    'gauge',
+    'Peers in ConnHub, by connection state.',
+    labeled('state', stats.peers.byState),
+  );
+  metric(
+    'ssb_conn_peers_by_type',
+    'gauge',
+    'Peers in ConnHub, by peer type.',
+    labeled('type', stats.peers.byType),
+  );
+  metric(
+    'ssb_conn_peers_by_source',
+    'gauge',
+    'Peers in ConnHub, by peer source.',
+    labeled('source', stats.peers.bySource),
+  );
+  metric(
+    'ssb_conn_staged_peers',
+    'gauge',
+    'Peers in ConnStaging, by peer type.',
+    labeled('type', stats.staged.byType),
+  );
+  metric('ssb_conn_db_peers', 'gauge', 'Peers in ConnDB.', [
+    [null, stats.db.total],
+  ]);
+  metric(
+    'ssb_conn_connection_attempts',
+    'counter',
+    'Connection attempts that we initiated.',
+    [[null, stats.attempts.total]],
+  );
+  metric(
+    'ssb_conn_connection_successes',
+    'counter',
+    'Connection attempts that succeeded.',
+    [[null, stats.attempts.succeeded]],
+  );
+  metric(
+    'ssb_conn_connection_failures',
+    'counter',
+    'Connection attempts that failed.',
+    [[null, stats.attempts.failed]],
+  );
+  metric(
+    'ssb_conn_connection_attempts_per_minute',
+    'gauge',
+    'Connection attempts in the last minute.',
+    [[null, stats.attempts.perMinute]],
+  );
+  metric(
+    'ssb_conn_ping_rtt_mean_milliseconds',
+    'gauge',
+    'Mean ping round-trip time across connected peers.',
+    [[null, stats.rtt.mean]],
+  );
+  metric(
+    'ssb_conn_scheduler_ticks',
+    'counter',
+    'Scheduler ticks that updated connections.',
+    [[null, stats.scheduler.ticks]],
+  );
+  metric(
+    'ssb_conn_scheduler_tick_duration_milliseconds',
+    'gauge',
+    'Duration of scheduler ticks.',
+    [
+      [{stat: 'last'}, stats.scheduler.lastTickDuration],
+      [{stat: 'mean'}, stats.scheduler.meanTickDuration],
+      [{stat: 'max'}, stats.scheduler.maxTickDuration],
+    ],
+  );
+
+  lines.push('# EOF');
+  return lines.join('\n') + '\n';
+}
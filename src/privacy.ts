@@ -0,0 +1,49 @@
+import {transportOf} from './transports';
+
+/**
+ * In `tor-only` mode, we only ever connect to `onion:` addresses, so that our
+ * IP address is never revealed to other peers.
+ */
+export type PrivacyMode = 'tor-only';
+
+const MODES: ReadonlyArray<PrivacyMode> = ['tor-only'];
+
+export function validatePrivacy(mode: any): string[] {
+  if (mode === undefined || mode === null) return [];
+  if (MODES.indexOf(mode) < 0) {
+    return ['should be one of ' + MODES.join(', ')];
+  }
+  return [];
+}
+
+export function loadPrivacy(config: any): PrivacyMode | null {
+  const mode = config.conn && config.conn.privacy;
+  if (mode === undefined || mode === null) return null;
+  const errors = validatePrivacy(mode);
+  if (errors.length > 0) {
+    throw new Error('Invalid config.conn.privacy: ' + errors[0]);
+  }
+  return mode;
+}
+
+function isOnionOnly(address: string) {
+  // Multiserver addresses can list several ways to reach the same peer
+  return address.split(';').every(part => transportOf(part) === 'onion');
+}
+
+/**
+ * Returns an error if the privacy mode forbids connecting to the address
+ */
+export function privacyRefusal(
+  mode: PrivacyMode | null,
+  address: string,
+): Error | null {
+  if (mode === 'tor-only' && !isOnionOnly(address)) {
+    return new Error(
+      'Cannot connect to ' +
+        address +
+        ', only onion addresses are allowed in tor-only privacy mode',
+    );
+  }
+  return null;
+}
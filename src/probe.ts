@@ -0,0 +1,272 @@
+import net = require('net');
+import ConnDB = require('ssb-conn-db');
+import ConnHub = require('ssb-conn-hub');
+import ConnStaging = require('ssb-conn-staging');
+import {Environment} from './environment';
+import {updateOrSkip} from './schema';
+const debug = require('debug')('ssb:conn:probe');
+
+export type ProbeResult = {
+  reachable: boolean;
+  timestamp: number;
+  /**
+   * Milliseconds it took to find out, only if reachable
+   */
+  latency?: number;
+};
+
+/**
+ * Checks if the address is reachable, without a full multiserver connection.
+ * Resolves with null if the address cannot be probed this way.
+ */
+export type Probe = (
+  address: string,
+  timeout: number,
+) => Promise<boolean | null>;
+
+export type ProbeConfig = {
+  /**
+   * Milliseconds between each round of probes, or 0 to disable
+   */
+  interval: number;
+  timeout: number;
+  /**
+   * How many addresses to probe in each round
+   */
+  batch: number;
+  /**
+   * How many probes in a row must fail before the address is considered
+   * unreachable
+   */
+  minFailures: number;
+  probe?: Probe;
+};
+
+export const DEFAULT_PROBE_CONFIG: Readonly<ProbeConfig> = {
+  interval: 5 * 60e3,
+  timeout: 5e3,
+  batch: 5,
+  minFailures: 2,
+};
+
+export function validateProbe(config: any): string[] {
+  if (config === undefined || config === false) return [];
+  if (!config || typeof config !== 'object') {
+    return ['should be an object or false'];
+  }
+  const errors: Array<string> = [];
+  for (const name of ['interval', 'timeout']) {
+    const value = config[name];
+    if (value !== undefined && !(typeof value === 'number' && value >= 0)) {
+      errors.push(`${name} should be a duration`);
+    }
+  }
+  if (
+    config.batch !== undefined &&
+    !(Number.isInteger(config.batch) && config.batch >= 0)
+  ) {
+    errors.push('batch should be a non-negative integer');
+  }
+  if (
+    config.minFailures !== undefined &&
+    !(Number.isInteger(config.minFailures) && config.minFailures > 0)
+  ) {
+    errors.push('minFailures should be a positive integer');
+  }
+  if (config.probe !== undefined && typeof config.probe !== 'function') {
+    errors.push('probe should be a function');
+  }
+  return errors;
+}
+
+/**
+ * The host and port of a `net:` address, where the host can be an IPv6
+ * address, with or without brackets
+ */
+function parseNetAddress(address: string) {
+  const transport = address.split(';')[0].split('~')[0];
+  if (transport.indexOf('net:') !== 0) return null;
+  const hostAndPort = transport.slice('net:'.length);
+  const i = hostAndPort.lastIndexOf(':');
+  const host = hostAndPort.slice(0, i).replace(/^\[(.*)\]$/, '$1');
+  const port = parseInt(hostAndPort.slice(i + 1), 10);
+  if (i < 0 || !host || !(port > 0)) return null;
+  return {host, port};
+}
+
+/**
+ * Probes `net:` addresses by opening and immediately closing a TCP socket.
+ */
+export const tcpProbe: Probe = (address, timeout) => {
+  const parsed = parseNetAddress(address);
+  if (!parsed) return Promise.resolve(null);
+
+  return new Promise(resolve => {
+    const socket = net.connect(parsed);
+    function done(reachable: boolean) {
+      socket.removeAllListeners();
+      socket.on('error', () => {});
+      socket.destroy();
+      resolve(reachable);
+    }
+    socket.setTimeout(timeout);
+    socket.once('connect', () => done(true));
+    socket.once('timeout', () => done(false));
+    socket.once('error', () => done(false));
+  });
+};
+
+/**
+ * Whether the latest probe is more recent than the latest connection attempt
+ * and says that the address is not reachable, after `minFailures` in a row.
+ */
+export function isUnreachable(
+  result: ProbeResult | undefined,
+  stateChange: number = 0,
+  failures: number = 1,
+  minFailures: number = 1,
+) {
+  if (!result || result.reachable || failures < minFailures) return false;
+  return result.timestamp >= stateChange;
+}
+
+/**
+ * Periodically probes the addresses in ConnDB and ConnStaging that are not
+ * in ConnHub, storing the results in ConnDB as `probe`, `lastReachable` and
+ * `probeFailures` (how many probes failed in a row).
+ */
+export class ConnProber {
+  private readonly db: ConnDB;
+  private readonly hub: ConnHub;
+  private readonly staging: ConnStaging;
+  private readonly env: Environment;
+  private readonly config: ProbeConfig;
+  private readonly probeFn: Probe;
+  private readonly results: Map<string, ProbeResult>;
+  private readonly failures: Map<string, number>;
+  private readonly pending: Map<string, Promise<ProbeResult | null>>;
+  private readonly unprobeable: Set<string>;
+  private readonly interval: any;
+
+  constructor(
+    db: ConnDB,
+    hub: ConnHub,
+    staging: ConnStaging,
+    env: Environment,
+    config: Partial<ProbeConfig> = {},
+  ) {
+    const errors = validateProbe(config);
+    if (errors.length > 0) {
+      throw new Error(
+        'Invalid config.conn.probe:\n  - ' + errors.join('\n  - '),
+      );
+    }
+    this.db = db;
+    this.hub = hub;
+    this.staging = staging;
+    this.env = env;
+    this.config = {...DEFAULT_PROBE_CONFIG, ...config};
+    this.probeFn = this.config.probe || tcpProbe;
+    this.results = new Map();
+    this.failures = new Map();
+    this.pending = new Map();
+    this.unprobeable = new Set();
+
+    if (this.config.interval > 0) {
+      this.interval = env.setInterval(
+        () => this.probeSome(),
+        this.config.interval,
+      );
+      if (this.interval.unref) this.interval.unref();
+    }
+  }
+
+  private candidates(): Array<string> {
+    const addresses = new Set<string>();
+    for (const [address] of this.db.entries()) addresses.add(address);
+    for (const [address] of this.staging.entries()) addresses.add(address);
+    return Array.from(addresses)
+      .filter(address => !this.hub.getState(address))
+      .filter(address => !this.pending.has(address))
+      .filter(address => !this.unprobeable.has(address))
+      .map(address => {
+        const latest = this.latest(address);
+        return [address, latest ? latest.timestamp : 0] as [string, number];
+      })
+      .sort((a, b) => a[1] - b[1])
+      .map(([address]) => address);
+  }
+
+  private probeSome() {
+    for (const address of this.candidates().slice(0, this.config.batch)) {
+      this.probe(address).catch(err => {
+        debug('failed to probe %s: %s', address, err);
+      });
+    }
+  }
+
+  public latest(address: string): ProbeResult | undefined {
+    if (this.results.has(address)) return this.results.get(address);
+    const data = this.db.get(address);
+    return data ? data.probe : undefined;
+  }
+
+  /**
+   * How many probes failed in a row
+   */
+  public failureStreak(address: string): number {
+    if (this.failures.has(address)) return this.failures.get(address)!;
+    const data = this.db.get(address);
+    return (data && data.probeFailures) || 0;
+  }
+
+  /**
+   * Whether the latest `minFailures` probes failed, since the latest
+   * connection attempt
+   */
+  public isUnreachable(address: string, stateChange?: number) {
+    return isUnreachable(
+      this.latest(address),
+      stateChange,
+      this.failureStreak(address),
+      this.config.minFailures,
+    );
+  }
+
+  public probe(address: string): Promise<ProbeResult | null> {
+    if (this.pending.has(address)) return this.pending.get(address)!;
+    const start = this.env.now();
+    const promise = this.probeFn(address, this.config.timeout).then(
+      reachable => {
+        this.pending.delete(address);
+        if (reachable === null) {
+          this.unprobeable.add(address);
+          return null;
+        }
+        const timestamp = this.env.now();
+        const result: ProbeResult = {reachable, timestamp};
+        if (reachable) result.latency = timestamp - start;
+        this.results.set(address, result);
+        const failures = reachable ? 0 : this.failureStreak(address) + 1;
+        this.failures.set(address, failures);
+        if (this.db.has(address)) {
+          const update: any = {probe: result, probeFailures: failures};
+          if (reachable) update.lastReachable = timestamp;
+          updateOrSkip(this.db, address, update);
+        }
+        debug('%s is %s', address, reachable ? 'reachable' : 'unreachable');
+        return result;
+      },
+      err => {
+        this.pending.delete(address);
+        throw err;
+      },
+    );
+    this.pending.set(address, promise);
+    return promise;
+  }
+
+  public close() {
+    if (this.interval) this.env.clearInterval(this.interval);
+  }
+}
@@ -0,0 +1,127 @@
+import ConnQuery = require('ssb-conn-query');
+import {Peer} from 'ssb-conn-query/lib/types';
+import {FeedId} from 'ssb-typescript';
+
+const {hasSuccessfulAttempts} = ConnQuery;
+
+export type PubConfig = {
+  /**
+   * How many of the best discovered pubs to keep staged
+   */
+  maxStaged: number;
+  /**
+   * Consecutive failed probes after which a pub that never responded is
+   * forgotten
+   */
+  maxProbeFailures: number;
+  /**
+   * How many dead pubs to forget at a time
+   */
+  pruneBatch: number;
+};
+
+export const DEFAULT_PUB_CONFIG: Readonly<PubConfig> = {
+  maxStaged: 3,
+  maxProbeFailures: 5,
+  pruneBatch: 1,
+};
+
+const MAX_LATENCY_SECONDS = 5;
+const MAX_HOPS = 3;
+
+export function validatePubs(config: any): string[] {
+  if (config === undefined) return [];
+  if (!config || typeof config !== 'object') return ['should be an object'];
+  const errors: Array<string> = [];
+  for (const name of ['maxStaged', 'maxProbeFailures', 'pruneBatch']) {
+    const value = config[name];
+    if (value !== undefined && !(Number.isInteger(value) && value >= 0)) {
+      errors.push(`${name} should be a non-negative integer`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Pubs remembered from "pub" messages, which we only stage, never connect to
+ * automatically
+ */
+export function isDiscoveredPub([, data]: [string, {[name: string]: any}]) {
+  return data.type === 'pub' && data.autoconnect === false;
+}
+
+/**
+ * Ranks the pubs announced on the log, using the probes made by ConnProber,
+ * so that the live ones are staged first and the dead ones are forgotten.
+ */
+export class PubRanking {
+  public readonly config: PubConfig;
+
+  constructor(config: Partial<PubConfig> = {}) {
+    const errors = validatePubs(config);
+    if (errors.length > 0) {
+      throw new Error(
+        'Invalid config.conn.pubs:\n  - ' + errors.join('\n  - '),
+      );
+    }
+    this.config = {...DEFAULT_PUB_CONFIG, ...config};
+  }
+
+  /**
+   * Whether the pub never responded to a probe nor to a connection, and the
+   * latest probes all failed
+   */
+  public isDead(peer: Peer) {
+    const data = peer[1];
+    if (data.lastReachable || hasSuccessfulAttempts(peer)) return false;
+    return (data.probeFailures || 0) >= this.config.maxProbeFailures;
+  }
+
+  /**
+   * Higher is better. Combines the latest probe, the round-trip time, and the
+   * follow hops between us and the feed that announced the pub.
+   */
+  public score([, data]: Peer, announcerHops?: number) {
+    const probe = data.probe;
+    const reachability = !probe ? 0 : probe.reachable ? 1 : -1;
+    const failures = Math.min(
+      data.probeFailures || 0,
+      this.config.maxProbeFailures,
+    );
+
+    let rtt = data.ping && data.ping.rtt ? data.ping.rtt.mean : 0;
+    if (!(rtt > 0) && probe && probe.reachable) rtt = probe.latency || 0;
+    const latency = Math.min(rtt / 1e3, MAX_LATENCY_SECONDS);
+
+    const distance =
+      typeof announcerHops === 'number' && announcerHops >= 0
+        ? Math.min(announcerHops, MAX_HOPS)
+        : MAX_HOPS;
+
+    // Being reachable outweighs any latency
+    return (
+      MAX_LATENCY_SECONDS * reachability -
+      latency -
+      0.5 * failures -
+      0.5 * distance
+    );
+  }
+
+  /**
+   * The pubs that are not dead, best first
+   */
+  public rank(
+    pubs: Array<Peer>,
+    hopsOf: (key: FeedId) => number | undefined,
+  ): Array<Peer> {
+    return pubs
+      .filter(peer => !this.isDead(peer))
+      .map(peer => {
+        const announcer = peer[1].announcer;
+        const hops = announcer ? hopsOf(announcer) : undefined;
+        return [peer, this.score(peer, hops)] as [Peer, number];
+      })
+      .sort((a, b) => b[1] - a[1])
+      .map(([peer]) => peer);
+  }
+}
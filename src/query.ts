@@ -0,0 +1,183 @@
+import ConnDB = require('ssb-conn-db');
+import ConnHub = require('ssb-conn-hub');
+import ConnStaging = require('ssb-conn-staging');
+import ConnQuery = require('ssb-conn-query');
+import {Peer, Data} from 'ssb-conn-query/lib/types';
+import {Statistics} from 'ssb-conn-db/lib/types';
+import {FeedId} from 'ssb-typescript';
+import {createScorer, Scorer} from './scoring';
+import {TransportPreference} from './transports';
+
+export type KeyData = Data & {
+  /**
+   * All the addresses of this feed ID, from the best score to the worst
+   */
+  addresses: Array<string>;
+};
+
+type PingStats = {rtt: Statistics; skew: Statistics};
+
+function combineStats(a?: Statistics, b?: Statistics): Statistics | undefined {
+  if (!a || !a.count) return b;
+  if (!b || !b.count) return a;
+  const count = a.count + b.count;
+  const sum = a.sum + b.sum;
+  const sqsum = a.sqsum + b.sqsum;
+  const mean = sum / count;
+  const stdev = Math.sqrt(Math.max(sqsum / count - mean * mean, 0));
+  return {mean, stdev, count, sum, sqsum};
+}
+
+const stateRank: Record<string, number> = {connected: 2, connecting: 1};
+
+function combineData(a: KeyData, b: Data): KeyData {
+  const combined: KeyData = {...a, addresses: a.addresses.concat()};
+  combined.failure = (a.failure || 0) + (b.failure || 0);
+  if (b.stateChange! > (a.stateChange || 0)) {
+    combined.stateChange = b.stateChange;
+  }
+  if (b.birth! < (a.birth || Infinity)) combined.birth = b.birth;
+  combined.duration = combineStats(a.duration, b.duration);
+  if (a.ping || b.ping) {
+    const pa: Partial<PingStats> = a.ping || {};
+    const pb: Partial<PingStats> = b.ping || {};
+    combined.ping = {
+      rtt: combineStats(pa.rtt, pb.rtt)!,
+      skew: combineStats(pa.skew, pb.skew)!,
+    };
+  }
+  if (b.pinned) combined.pinned = true;
+  if ((stateRank[b.state!] || 0) > (stateRank[a.state!] || 0)) {
+    combined.state = b.state;
+  }
+  return combined;
+}
+
+/**
+ * ConnQuery with extra queries that need state kept in CONN.
+ */
+export class Query extends ConnQuery {
+  private readonly defaultScorer: Scorer;
+  private scorer: Scorer;
+  private hops: Record<FeedId, number>;
+  public readonly transports: TransportPreference;
+
+  constructor(
+    db: ConnDB,
+    hub: ConnHub,
+    staging: ConnStaging,
+    scorer: Scorer = createScorer(),
+    transports: TransportPreference = new TransportPreference(),
+  ) {
+    super(db, hub, staging);
+    this.defaultScorer = scorer;
+    this.scorer = scorer;
+    this.hops = {};
+    this.transports = transports;
+  }
+
+  /**
+   * Replaces the function used to score peers, or restores the default
+   * scorer if `null` is given.
+   */
+  public useScorer(scorer: Scorer | null) {
+    this.scorer = scorer || this.defaultScorer;
+  }
+
+  public setHops(hops: Record<FeedId, number>) {
+    this.hops = hops;
+  }
+
+  public hopsOf(key: FeedId): number | undefined {
+    return this.hops[key];
+  }
+
+  public score(peer: Peer, now: number = Date.now()): number {
+    const key = peer[1].key;
+    const hops = key ? this.hops[key] : undefined;
+    try {
+      const score = this.scorer(peer, {now, hops});
+      return typeof score === 'number' && !isNaN(score) ? score : -Infinity;
+    } catch (err) {
+      return -Infinity;
+    }
+  }
+
+  /**
+   * Sorts the given peers from the best score to the worst score.
+   */
+  public sortByScore(peers: Array<Peer>, now: number = Date.now()) {
+    const scores = new Map<Peer, number>();
+    for (const peer of peers) scores.set(peer, this.score(peer, now));
+    return peers.sort((a, b) => scores.get(b)! - scores.get(a)! || 0);
+  }
+
+  public peersByScore(pool: 'db' | 'staging' | 'dbAndStaging' = 'db') {
+    return this.sortByScore(this.peersConnectable(pool));
+  }
+
+  /**
+   * Sorts the given peers so that those that failed the fewest times in a row
+   * come first, then by transport preference, then by score. Thus, after a
+   * failure on the preferred transport, the next one is tried. Transports that
+   * are not allowed always come last.
+   */
+  public sortByTransport(peers: Array<Peer>, now: number = Date.now()) {
+    const ranks = new Map<Peer, number>();
+    for (const peer of peers) {
+      ranks.set(peer, this.transports.rank(peer[0], peer[1]));
+    }
+    // Array sort is stable, so peers keep their score order when tied
+    return this.sortByScore(peers, now).sort((a, b) => {
+      const ra = ranks.get(a)!;
+      const rb = ranks.get(b)!;
+      // Addresses that are not allowed are never dialled, so they never fail
+      if ((ra === Infinity) !== (rb === Infinity)) {
+        return ra === Infinity ? 1 : -1;
+      }
+      const failures = (a[1].failure || 0) - (b[1].failure || 0);
+      if (failures !== 0) return failures;
+      return ra === rb ? 0 : ra < rb ? -1 : 1;
+    });
+  }
+
+  /**
+   * Merges the given peers that share a feed ID into one peer, addressed by
+   * its best address (see `sortByTransport`), with their stats combined and
+   * all of their addresses listed in `addresses`. Peers without a known feed
+   * ID are kept as they are.
+   */
+  public groupByKey(
+    peers: Array<Peer>,
+    now: number = Date.now(),
+  ): Array<Peer> {
+    const groups = new Map<string, [string, KeyData]>();
+    const result: Array<Peer> = [];
+    for (const [address, data] of this.sortByTransport(peers.concat(), now)) {
+      const key = data.key;
+      if (!key) {
+        result.push([address, data]);
+      } else if (groups.has(key)) {
+        const group = groups.get(key)!;
+        group[1] = combineData(group[1], data);
+        group[1].addresses.push(address);
+      } else {
+        const group: [string, KeyData] = [address, {...data, addresses: []}];
+        group[1].addresses.push(address);
+        groups.set(key, group);
+        result.push(group);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * One entry per feed ID, across ConnDB, ConnStaging and ConnHub, with the
+   * data of all its addresses combined.
+   */
+  public peersByKey(): Array<[string, KeyData]> {
+    return this.groupByKey(this.peersAll())
+      .filter(([, data]) => !!data.key)
+      .map(([, data]) => [data.key!, data as KeyData] as [string, KeyData]);
+  }
+}
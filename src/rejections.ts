@@ -0,0 +1,137 @@
+import {Environment} from './environment';
+import {JsonFile} from './json-file';
+const Ref = require('ssb-ref');
+
+export type Rejection = {
+  /**
+   * The multiserver address that was rejected
+   */
+  address: string;
+  /**
+   * The SSB feed ID of the address, if known, so that other addresses of the
+   * same peer are also rejected
+   */
+  key?: string;
+  createdAt: number;
+  /**
+   * Timestamp when the rejection expires, or undefined if it never expires
+   */
+  until?: number;
+};
+
+export type ApproveOpts = {
+  /**
+   * Whether to store the peer in ConnDB, true by default
+   */
+  remember?: boolean;
+  /**
+   * Whether to connect now and let the scheduler keep connecting to it, true
+   * by default
+   */
+  autoconnect?: boolean;
+};
+
+export type RejectOpts = {
+  /**
+   * Milliseconds until the rejection expires, otherwise it never expires
+   */
+  for?: number;
+};
+
+/**
+ * Staged peers that the user dismissed, so that discovery doesn't stage them
+ * again, persisted locally.
+ */
+export class RejectionList {
+  private readonly file: JsonFile<Array<Rejection>>;
+  private readonly env: Environment;
+  private readonly rejections: Map<string, Rejection>;
+
+  constructor(file: JsonFile<Array<Rejection>>, env: Environment) {
+    this.file = file;
+    this.env = env;
+    this.rejections = new Map();
+
+    const saved = file.load();
+    if (Array.isArray(saved)) {
+      for (const rejection of saved) {
+        if (rejection && typeof rejection.address === 'string') {
+          this.rejections.set(rejection.address, rejection);
+        }
+      }
+    }
+  }
+
+  private save() {
+    this.file.write(Array.from(this.rejections.values()));
+  }
+
+  private pruneExpired() {
+    const now = this.env.now();
+    let changed = false;
+    for (const [address, rejection] of this.rejections) {
+      if (typeof rejection.until === 'number' && rejection.until <= now) {
+        this.rejections.delete(address);
+        changed = true;
+      }
+    }
+    if (changed) this.save();
+  }
+
+  public reject(address: string, opts: RejectOpts = {}) {
+    if (!Ref.isAddress(address)) {
+      throw new Error('Cannot reject "' + address + '", it is not an address');
+    }
+    if (
+      opts.for !== undefined &&
+      !(typeof opts.for === 'number' && opts.for >= 0)
+    ) {
+      throw new Error('The reject option `for` should be a duration');
+    }
+    const now = this.env.now();
+    const rejection: Rejection = {address, createdAt: now};
+    const feedId = Ref.getKeyFromAddress(address);
+    if (feedId) rejection.key = feedId;
+    if (opts.for !== undefined) rejection.until = now + opts.for;
+    this.rejections.set(address, rejection);
+    this.save();
+    return rejection;
+  }
+
+  /**
+   * Forgets the rejections of this address and of its feed ID
+   */
+  public unreject(address: string, key?: string): boolean {
+    const feedId = key || Ref.getKeyFromAddress(address);
+    let existed = false;
+    for (const [addr, rejection] of this.rejections) {
+      if (addr === address || (!!feedId && rejection.key === feedId)) {
+        this.rejections.delete(addr);
+        existed = true;
+      }
+    }
+    if (existed) this.save();
+    return existed;
+  }
+
+  public list(): Array<Rejection> {
+    this.pruneExpired();
+    return Array.from(this.rejections.values());
+  }
+
+  public isRejected(address: string, key?: string): boolean {
+    if (this.rejections.size === 0) return false;
+    this.pruneExpired();
+    if (this.rejections.has(address)) return true;
+    const feedId = key || Ref.getKeyFromAddress(address);
+    if (!feedId) return false;
+    for (const rejection of this.rejections.values()) {
+      if (rejection.key === feedId) return true;
+    }
+    return false;
+  }
+
+  public close() {
+    this.file.flush();
+  }
+}
@@ -0,0 +1,131 @@
+import {Peer} from 'ssb-conn-query/lib/types';
+
+export type RotationConfig = {
+  /**
+   * Maximum lifetime (ms) of a connection, looked up by the peer's `type`,
+   * then by its `source`, then `default`. `null` means no limit.
+   */
+  maxLifetime: {[typeOrSource: string]: number | null};
+  /**
+   * Disconnect peers without any activity for this long (ms), or 0 to disable
+   */
+  maxIdle: number;
+  /**
+   * Each address gets a lifetime up to this fraction shorter or longer, so
+   * that connections made at the same time don't all drop at once
+   */
+  stagger: number;
+};
+
+export type RotationReason = 'rotation' | 'idle';
+
+const hour = 60 * 60e3;
+
+export const DEFAULT_ROTATION_CONFIG: Readonly<RotationConfig> = {
+  maxLifetime: {default: 1 * hour, lan: null, bt: null},
+  maxIdle: 0,
+  stagger: 0.1,
+};
+
+function isDuration(x: any) {
+  return typeof x === 'number' && x >= 0;
+}
+
+export function validateRotation(config: any): string[] {
+  if (config === undefined) return [];
+  if (!config || typeof config !== 'object') return ['should be an object'];
+  const errors: Array<string> = [];
+  const {maxLifetime, maxIdle, stagger} = config;
+  if (maxLifetime !== undefined) {
+    if (!maxLifetime || typeof maxLifetime !== 'object') {
+      errors.push('maxLifetime should be an object');
+    } else {
+      for (const name of Object.keys(maxLifetime)) {
+        const value = maxLifetime[name];
+        if (value !== null && !isDuration(value)) {
+          errors.push(`maxLifetime.${name} should be a duration or null`);
+        }
+      }
+    }
+  }
+  if (maxIdle !== undefined && !isDuration(maxIdle)) {
+    errors.push('maxIdle should be a duration');
+  }
+  if (stagger !== undefined && !(isDuration(stagger) && stagger < 1)) {
+    errors.push('stagger should be a number between 0 and 1');
+  }
+  return errors;
+}
+
+/**
+ * A number between -1 and 1 that is always the same for the same address
+ */
+function hashToUnit(address: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < address.length; i++) {
+    hash ^= address.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return (hash / 0xffffffff) * 2 - 1;
+}
+
+/**
+ * Decides when connections should be rotated out, to give other peers a
+ * chance. Addresses with `rotate: false` in their ConnDB data are exempt.
+ */
+export class RotationPolicy {
+  public readonly config: RotationConfig;
+
+  constructor(config: Partial<RotationConfig> = {}) {
+    const errors = validateRotation(config);
+    if (errors.length > 0) {
+      throw new Error(
+        'Invalid config.conn.rotation:\n  - ' + errors.join('\n  - '),
+      );
+    }
+    this.config = {
+      ...DEFAULT_ROTATION_CONFIG,
+      ...config,
+      maxLifetime: {
+        ...DEFAULT_ROTATION_CONFIG.maxLifetime,
+        ...config.maxLifetime,
+      },
+    };
+  }
+
+  /**
+   * The staggered lifetime of this connection, or null if unlimited
+   */
+  public lifetime([address, data]: Peer): number | null {
+    const limits = this.config.maxLifetime;
+    let limit = limits.default;
+    if (data.type && data.type in limits) limit = limits[data.type];
+    else if (data.source && data.source in limits) limit = limits[data.source];
+    if (limit === null || limit === undefined) return null;
+    return limit * (1 + this.config.stagger * hashToUnit(address));
+  }
+
+  /**
+   * Returns why the connected peer should be rotated out, or null if not.
+   * `lastActivity` is the latest time we saw traffic or a ping from them.
+   */
+  public check(peer: Peer, now: number, lastActivity: number = 0) {
+    const data = peer[1];
+    if (data.rotate === false) return null;
+    // ConnHub knows the connect time of inbound peers missing from ConnDB
+    const connectedAt = data.stateChange || data.connectedAt;
+    if (!connectedAt) return null;
+
+    const lifetime = this.lifetime(peer);
+    if (lifetime !== null && connectedAt + lifetime < now) {
+      return 'rotation' as RotationReason;
+    }
+
+    const maxIdle = this.config.maxIdle;
+    const active = Math.max(connectedAt, lastActivity);
+    if (maxIdle > 0 && active + maxIdle < now) {
+      return 'idle' as RotationReason;
+    }
+    return null;
+  }
+}
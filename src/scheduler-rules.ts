@@ -0,0 +1,346 @@
+import ConnQuery = require('ssb-conn-query');
+import {Peer} from 'ssb-conn-query/lib/types';
+import {FeedId} from 'ssb-typescript';
+
+const {
+  hasNoAttempts,
+  hasOnlyFailedAttempts,
+  hasPinged,
+  hasSuccessfulAttempts,
+} = ConnQuery;
+
+/**
+ * Which peers belong to a rule's group. Every field that is present must be
+ * satisfied by the peer, an empty match selects all peers.
+ */
+export type RuleMatch = {
+  source?: string | Array<string>;
+  type?: string | Array<string>;
+  hasPinged?: boolean;
+  hasNoAttempts?: boolean;
+  hasOnlyFailedAttempts?: boolean;
+  isLegacy?: boolean;
+  hops?: {min?: number; max?: number};
+  tag?: string;
+  /**
+   * Pinned peers only ever match rules with `pinned: true`
+   */
+  pinned?: boolean;
+};
+
+export type Rule = {
+  name: string;
+  match: RuleMatch;
+  quota: number;
+  backoffStep: number;
+  backoffMax: number;
+  groupMin: number;
+  /**
+   * Only apply this rule while there are no peers in connection
+   */
+  onlyWhenIsolated?: boolean;
+};
+
+export type CompiledRule = Rule & {test: (p: Peer) => boolean};
+
+const minute = 60e3;
+const hour = 60 * 60e3;
+
+export const DEFAULT_RULES: ReadonlyArray<Rule> = [
+  {
+    name: 'seeds',
+    match: {source: 'seed'},
+    quota: 3,
+    backoffStep: 2e3,
+    backoffMax: 10 * minute,
+    groupMin: 1e3,
+  },
+  {
+    // If there are no peers, then try *any* connection ASAP
+    name: 'isolated',
+    match: {},
+    onlyWhenIsolated: true,
+    quota: 1,
+    backoffStep: 1e3,
+    backoffMax: 6e3,
+    groupMin: 0,
+  },
+  {
+    // Connect to rooms, up to 10 of them, prioritized over pubs
+    name: 'rooms',
+    match: {type: 'room'},
+    quota: 10,
+    backoffStep: 5e3,
+    backoffMax: 5 * minute,
+    groupMin: 5e3,
+  },
+  {
+    name: 'pinged',
+    match: {hasPinged: true},
+    quota: 2,
+    backoffStep: 10e3,
+    backoffMax: 10 * minute,
+    groupMin: 5e3,
+  },
+  {
+    name: 'untried',
+    match: {hasNoAttempts: true},
+    quota: 2,
+    backoffStep: 30e3,
+    backoffMax: 30 * minute,
+    groupMin: 15e3,
+  },
+  {
+    name: 'failing',
+    match: {hasOnlyFailedAttempts: true},
+    quota: 3,
+    backoffStep: 1 * minute,
+    backoffMax: 3 * hour,
+    groupMin: 5 * minute,
+  },
+  {
+    name: 'legacy',
+    match: {isLegacy: true},
+    quota: 1,
+    backoffStep: 4 * minute,
+    backoffMax: 3 * hour,
+    groupMin: 5 * minute,
+  },
+];
+
+/**
+ * Keeps pinned peers connected, retrying soon after failures, without using
+ * up the quotas of other rules.
+ */
+export const PINNED_RULE: Readonly<Rule> = {
+  name: 'pinned',
+  match: {pinned: true},
+  quota: Infinity,
+  backoffStep: 1e3,
+  backoffMax: 1 * minute,
+  groupMin: 0,
+};
+
+/**
+ * Puts the pinned rule first, unless the rules already handle pinned peers
+ */
+export function withPinnedRule(rules: Array<Rule>): Array<Rule> {
+  if (rules.some(rule => rule.match.pinned === true)) return rules;
+  return [PINNED_RULE, ...rules];
+}
+
+//peers which we can connect to, but are not upgraded.
+//select peers which we can connect to, but are not upgraded to LT.
+//assume any peer is legacy, until we know otherwise...
+export function isLegacy(peer: Peer): boolean {
+  return hasSuccessfulAttempts(peer) && !hasPinged(peer);
+}
+
+const RULE_FIELDS = [
+  'name',
+  'match',
+  'quota',
+  'backoffStep',
+  'backoffMax',
+  'groupMin',
+  'onlyWhenIsolated',
+];
+
+const MATCH_FIELDS = [
+  'source',
+  'type',
+  'hasPinged',
+  'hasNoAttempts',
+  'hasOnlyFailedAttempts',
+  'isLegacy',
+  'hops',
+  'tag',
+  'pinned',
+];
+
+function isNonNegativeNumber(x: any): boolean {
+  return typeof x === 'number' && !isNaN(x) && x >= 0;
+}
+
+function isStringOrStrings(x: any): boolean {
+  if (typeof x === 'string') return true;
+  return (
+    Array.isArray(x) && x.length > 0 && x.every(s => typeof s === 'string')
+  );
+}
+
+function validateMatch(match: any, where: string): Array<string> {
+  if (!match || typeof match !== 'object' || Array.isArray(match)) {
+    return [`${where}.match must be an object`];
+  }
+  const errors: Array<string> = [];
+  for (const field of Object.keys(match)) {
+    if (MATCH_FIELDS.indexOf(field) < 0) {
+      errors.push(
+        `${where}.match.${field} is not supported, ` +
+          `expected one of: ${MATCH_FIELDS.join(', ')}`,
+      );
+    }
+  }
+  for (const field of ['source', 'type']) {
+    if (field in match && !isStringOrStrings(match[field])) {
+      errors.push(`${where}.match.${field} must be a string or strings array`);
+    }
+  }
+  for (const field of [
+    'hasPinged',
+    'hasNoAttempts',
+    'hasOnlyFailedAttempts',
+    'isLegacy',
+    'pinned',
+  ]) {
+    if (field in match && typeof match[field] !== 'boolean') {
+      errors.push(`${where}.match.${field} must be a boolean`);
+    }
+  }
+  if ('tag' in match && typeof match.tag !== 'string') {
+    errors.push(`${where}.match.tag must be a string`);
+  }
+  if ('hops' in match) {
+    const hops = match.hops;
+    if (!hops || typeof hops !== 'object') {
+      errors.push(`${where}.match.hops must be an object like {min, max}`);
+    } else {
+      for (const field of Object.keys(hops)) {
+        if (field !== 'min' && field !== 'max') {
+          errors.push(`${where}.match.hops.${field} is not supported`);
+        } else if (typeof hops[field] !== 'number' || isNaN(hops[field])) {
+          errors.push(`${where}.match.hops.${field} must be a number`);
+        }
+      }
+      if (
+        typeof hops.min === 'number' &&
+        typeof hops.max === 'number' &&
+        hops.min > hops.max
+      ) {
+        errors.push(`${where}.match.hops.min must not be greater than max`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Returns human-readable problems found in the given rule table, or an empty
+ * array if the rules are valid.
+ */
+export function validateRules(rules: any): Array<string> {
+  if (!Array.isArray(rules)) return ['rules must be an array'];
+  const errors: Array<string> = [];
+  const names = new Set<string>();
+  rules.forEach((rule: any, i: number) => {
+    let where = `rules[${i}]`;
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    if (typeof rule.name !== 'string' || !rule.name) {
+      errors.push(`${where}.name must be a non-empty string`);
+    } else {
+      where = `rules[${i}] ("${rule.name}")`;
+      if (names.has(rule.name)) errors.push(`${where} has a duplicate name`);
+      names.add(rule.name);
+    }
+    for (const field of Object.keys(rule)) {
+      if (RULE_FIELDS.indexOf(field) < 0) {
+        errors.push(`${where}.${field} is not supported`);
+      }
+    }
+    errors.push(...validateMatch(rule.match, where));
+    if (!Number.isInteger(rule.quota) || rule.quota < 0) {
+      errors.push(`${where}.quota must be a non-negative integer`);
+    }
+    for (const field of ['backoffStep', 'backoffMax', 'groupMin']) {
+      if (!isNonNegativeNumber(rule[field])) {
+        errors.push(`${where}.${field} must be a non-negative number`);
+      }
+    }
+    if (
+      isNonNegativeNumber(rule.backoffStep) &&
+      isNonNegativeNumber(rule.backoffMax) &&
+      rule.backoffMax < rule.backoffStep
+    ) {
+      errors.push(`${where}.backoffMax must not be smaller than backoffStep`);
+    }
+    if (
+      'onlyWhenIsolated' in rule &&
+      typeof rule.onlyWhenIsolated !== 'boolean'
+    ) {
+      errors.push(`${where}.onlyWhenIsolated must be a boolean`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Picks the rule table from `config.conn.scheduler.rules`, falling back to
+ * the default rules. Throws if the configured rules are invalid.
+ */
+export function loadRules(config: any): Array<Rule> {
+  const rules =
+    config.conn && config.conn.scheduler && config.conn.scheduler.rules;
+  if (rules == null) return DEFAULT_RULES.slice();
+  const errors = validateRules(rules);
+  if (errors.length > 0) {
+    throw new Error(
+      'Invalid config.conn.scheduler.rules:\n' +
+        errors.map(e => '  - ' + e).join('\n'),
+    );
+  }
+  return rules;
+}
+
+function oneOf(expected: string | Array<string>, actual: any) {
+  return typeof expected === 'string'
+    ? actual === expected
+    : expected.indexOf(actual) >= 0;
+}
+
+export function compileRule(
+  rule: Rule,
+  hopsOf: (key: FeedId) => number | undefined,
+): CompiledRule {
+  const m = rule.match;
+  const test = (peer: Peer) => {
+    const data = peer[1];
+    if ((data.pinned === true) !== (m.pinned === true)) return false;
+    if (m.source !== undefined && !oneOf(m.source, data.source)) return false;
+    if (m.type !== undefined && !oneOf(m.type, data.type)) return false;
+    if (m.hasPinged !== undefined && hasPinged(peer) !== m.hasPinged) {
+      return false;
+    }
+    if (
+      m.hasNoAttempts !== undefined &&
+      hasNoAttempts(peer) !== m.hasNoAttempts
+    ) {
+      return false;
+    }
+    if (
+      m.hasOnlyFailedAttempts !== undefined &&
+      hasOnlyFailedAttempts(peer) !== m.hasOnlyFailedAttempts
+    ) {
+      return false;
+    }
+    if (m.isLegacy !== undefined && isLegacy(peer) !== m.isLegacy) {
+      return false;
+    }
+    if (m.hops !== undefined) {
+      const hops = data.key ? hopsOf(data.key) : undefined;
+      if (typeof hops !== 'number') return false;
+      if (m.hops.min !== undefined && hops < m.hops.min) return false;
+      if (m.hops.max !== undefined && hops > m.hops.max) return false;
+    }
+    if (m.tag !== undefined) {
+      if (!Array.isArray(data.tags) || data.tags.indexOf(m.tag) < 0) {
+        return false;
+      }
+    }
+    return true;
+  };
+  return {...rule, test};
+}
@@ -0,0 +1,334 @@
+import ConnDB = require('ssb-conn-db');
+import {Statistics} from 'ssb-conn-db/lib/types';
+import {FeedId} from 'ssb-typescript';
+import {Environment} from './environment';
+import {JsonFile} from './json-file';
+import {ProbeResult} from './probe';
+import {LatencySummary} from './latency';
+const Ref = require('ssb-ref');
+const msAddress = require('multiserver-address');
+const debug = require('debug')('ssb:conn:schema');
+
+/**
+ * The data stored in conn.json for each address. Other fields are allowed,
+ * but these are the ones that CONN reads and writes.
+ */
+export type StoredData = {
+  birth?: number;
+  key?: FeedId;
+  source?: 'seed' | 'pub' | 'manual' | 'friends' | 'dht' | string;
+  type?: string;
+  failure?: number;
+  stateChange?: number;
+  lastConnected?: number;
+  duration?: Statistics;
+  ping?: {
+    rtt: Statistics;
+    skew: Statistics;
+    fail?: boolean;
+  };
+  latency?: LatencySummary;
+  autoconnect?: boolean;
+  pinned?: boolean;
+  rotate?: boolean;
+  tags?: Array<string>;
+  note?: string;
+  probe?: ProbeResult;
+  lastReachable?: number;
+  probeFailures?: number;
+  announcer?: FeedId;
+  [name: string]: any;
+};
+
+export type SchemaState = {
+  version: number;
+};
+
+export type QuarantinedEntry = {
+  address: string;
+  data: any;
+  errors: Array<string>;
+  quarantinedAt: number;
+};
+
+export type UpgradeResult = {
+  from: number;
+  to: number;
+  /**
+   * Addresses whose data was changed by a migration
+   */
+  migrated: Array<string>;
+  /**
+   * Addresses that a migration decided to drop
+   */
+  removed: Array<string>;
+  quarantined: Array<QuarantinedEntry>;
+};
+
+/**
+ * Upgrades one entry from the previous version, returning null if the entry
+ * should be dropped
+ */
+type Migration = (address: string, data: any) => [string, any] | null;
+
+const MIGRATIONS: Array<Migration> = [
+  // 1 -> 2: conn.json files created from gossip.json, or written before
+  // entries were validated
+  function fromVersion1(address, data) {
+    // Peers discovered by ssb-local, ssb-lan and bluetooth are only staged
+    if (data.source === 'local' || data.source === 'bt') return null;
+    if (data.type === 'lan' || data.type === 'bt') return null;
+
+    // Connection state that gossip.json used to persist
+    const {state, client, disconnect, ...next} = data;
+    if (next.ping && typeof next.ping === 'object') {
+      const {rtt, skew, ...ping} = next.ping;
+      if (isStatistics(rtt)) ping.rtt = rtt;
+      if (isStatistics(skew)) ping.skew = skew;
+      next.ping = ping;
+    }
+    return [address, next];
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length + 1;
+
+function isObject(x: any) {
+  return !!x && typeof x === 'object' && !Array.isArray(x);
+}
+
+function isTimestamp(x: any) {
+  return typeof x === 'number' && isFinite(x) && x >= 0;
+}
+
+function isCount(x: any) {
+  return Number.isInteger(x) && x >= 0;
+}
+
+function isStatistics(x: any) {
+  return isObject(x) && typeof x.mean === 'number';
+}
+
+const FIELDS: {[name: string]: [(x: any) => boolean, string]} = {
+  birth: [isTimestamp, 'a timestamp'],
+  stateChange: [isTimestamp, 'a timestamp'],
+  lastConnected: [isTimestamp, 'a timestamp'],
+  lastReachable: [isTimestamp, 'a timestamp'],
+  failure: [isCount, 'a non-negative integer'],
+  probeFailures: [isCount, 'a non-negative integer'],
+  key: [Ref.isFeed, 'a feed ID'],
+  announcer: [Ref.isFeed, 'a feed ID'],
+  source: [x => typeof x === 'string', 'a string'],
+  type: [x => typeof x === 'string', 'a string'],
+  note: [x => typeof x === 'string', 'a string'],
+  autoconnect: [x => typeof x === 'boolean', 'a boolean'],
+  pinned: [x => typeof x === 'boolean', 'a boolean'],
+  rotate: [x => typeof x === 'boolean', 'a boolean'],
+  tags: [
+    x => Array.isArray(x) && x.every(t => typeof t === 'string'),
+    'an array of strings',
+  ],
+  duration: [isStatistics, 'statistics'],
+  ping: [
+    x =>
+      isObject(x) &&
+      (x.rtt === undefined || isStatistics(x.rtt)) &&
+      (x.skew === undefined || isStatistics(x.skew)),
+    'an object with rtt and skew statistics',
+  ],
+  latency: [isObject, 'an object'],
+  probe: [
+    x => isObject(x) && typeof x.reachable === 'boolean',
+    'a probe result',
+  ],
+};
+
+/**
+ * Returns the reasons why this entry does not fit the current schema, if any
+ */
+export function validateEntry(address: any, data: any): string[] {
+  const errors: Array<string> = [];
+  if (typeof address !== 'string' || !msAddress.check(address)) {
+    errors.push('address should be a multiserver address');
+  }
+  if (!isObject(data)) {
+    errors.push('data should be an object');
+    return errors;
+  }
+  for (const name of Object.keys(FIELDS)) {
+    if (data[name] === undefined) continue;
+    const [isValid, expected] = FIELDS[name];
+    if (!isValid(data[name])) errors.push(`${name} should be ${expected}`);
+  }
+  return errors;
+}
+
+function assertValidEntry(address: string, data: any) {
+  const errors = validateEntry(address, data);
+  if (errors.length > 0) {
+    throw new Error(
+      'Invalid ConnDB entry for ' + address + ':\n  - ' + errors.join('\n  - '),
+    );
+  }
+}
+
+/**
+ * ConnDB that refuses writes which would store an entry not fitting the
+ * schema, so that conn.json only contains what CONN knows how to read.
+ */
+export class ValidatingConnDB extends ConnDB {
+  public replace(address: string, data: StoredData) {
+    assertValidEntry(address, data);
+    return super.replace(address, data);
+  }
+
+  public set(address: string, data: StoredData) {
+    assertValidEntry(address, {...this.get(address), ...data});
+    return super.set(address, data);
+  }
+
+  public update(
+    address: string,
+    x: StoredData | ((prev: StoredData) => StoredData),
+  ) {
+    const prev = this.has(address) ? this.get(address) : undefined;
+    if (!prev || !x || (typeof x !== 'object' && typeof x !== 'function')) {
+      return super.update(address, x);
+    }
+    const next = typeof x === 'function' ? x(prev) : x;
+    assertValidEntry(address, {...prev, ...next});
+    return super.update(address, next);
+  }
+}
+
+/**
+ * Updates ConnDB from hub events and timers, where an exception would be
+ * uncaught. An update that would store an invalid entry is skipped instead.
+ */
+export function updateOrSkip(
+  db: ConnDB,
+  address: string,
+  x: StoredData | ((prev: StoredData) => StoredData),
+) {
+  try {
+    db.update(address, x);
+  } catch (err) {
+    debug('skipped updating %s in ConnDB: %s', address, err.message);
+  }
+}
+
+/**
+ * Keeps conn.json at the current schema version: runs the migrations of
+ * older files once they are loaded, and moves entries that are still invalid
+ * out of ConnDB into a quarantine file, where they can be inspected.
+ */
+export class ConnSchema {
+  private readonly db: ConnDB;
+  private readonly file: JsonFile<SchemaState>;
+  private readonly quarantineFile: JsonFile<Array<QuarantinedEntry>>;
+  private readonly env: Environment;
+  private readonly quarantine: Array<QuarantinedEntry>;
+
+  constructor(
+    db: ConnDB,
+    file: JsonFile<SchemaState>,
+    quarantineFile: JsonFile<Array<QuarantinedEntry>>,
+    env: Environment,
+  ) {
+    this.db = db;
+    this.file = file;
+    this.quarantineFile = quarantineFile;
+    this.env = env;
+    const saved = quarantineFile.load();
+    this.quarantine = Array.isArray(saved) ? saved : [];
+  }
+
+  /**
+   * The version of the loaded conn.json. Files without a version were either
+   * just created or written by older versions of CONN and ssb-gossip.
+   */
+  private loadVersion(): number {
+    const saved = this.file.load();
+    if (saved && Number.isInteger(saved.version)) return saved.version;
+    return this.db.entries().next().done ? SCHEMA_VERSION : 1;
+  }
+
+  /**
+   * Should be called once ConnDB has loaded conn.json
+   */
+  public upgrade(): UpgradeResult {
+    const from = this.loadVersion();
+    const result: UpgradeResult = {
+      from,
+      to: Math.max(from, SCHEMA_VERSION),
+      migrated: [],
+      removed: [],
+      quarantined: [],
+    };
+    if (from > SCHEMA_VERSION) {
+      debug('conn.json has the newer schema version %d', from);
+    }
+
+    for (const [address, data] of Array.from(this.db.entries())) {
+      let entry: [string, any] | null = [address, data];
+      try {
+        for (let v = from; v < SCHEMA_VERSION && entry; v++) {
+          entry = MIGRATIONS[v - 1](entry[0], entry[1]);
+        }
+      } catch (err) {
+        debug('failed to migrate %s: %s', address, err);
+        this.quarantineEntry(address, data, ['migration failed: ' + err]);
+        result.quarantined.push(this.quarantine[this.quarantine.length - 1]);
+        continue;
+      }
+
+      if (!entry) {
+        debug('dropping %s from ConnDB, it is obsolete', address);
+        this.db.delete(address);
+        result.removed.push(address);
+        continue;
+      }
+
+      const [nextAddress, nextData] = entry;
+      const errors = validateEntry(nextAddress, nextData);
+      if (errors.length > 0) {
+        debug('quarantining %s: %s', address, errors.join(', '));
+        this.quarantineEntry(address, data, errors);
+        result.quarantined.push(this.quarantine[this.quarantine.length - 1]);
+        continue;
+      }
+
+      if (nextAddress !== address || nextData !== data) {
+        if (nextAddress !== address) this.db.delete(address);
+        this.db.replace(nextAddress, nextData);
+        result.migrated.push(nextAddress);
+      }
+    }
+
+    if (from < SCHEMA_VERSION) {
+      debug('upgraded conn.json from version %d to %d', from, SCHEMA_VERSION);
+    }
+    this.file.write({version: result.to});
+    return result;
+  }
+
+  private quarantineEntry(address: string, data: any, errors: Array<string>) {
+    this.db.delete(address);
+    this.quarantine.push({
+      address,
+      data,
+      errors,
+      quarantinedAt: this.env.now(),
+    });
+    this.quarantineFile.write(this.quarantine);
+  }
+
+  public quarantined(): Array<QuarantinedEntry> {
+    return this.quarantine.slice();
+  }
+
+  public close() {
+    this.file.flush();
+    this.quarantineFile.flush();
+  }
+}
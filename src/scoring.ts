@@ -0,0 +1,104 @@
+import {Peer} from 'ssb-conn-query/lib/types';
+
+export type ScoreWeights = {
+  /**
+   * Penalty per second of mean ping round-trip time
+   */
+  latency: number;
+  /**
+   * Bonus for long connection sessions, on a logarithmic scale of minutes
+   */
+  duration: number;
+  /**
+   * Penalty per consecutive failed connection attempt
+   */
+  failure: number;
+  /**
+   * Bonus for peers we haven't attempted in a while, on a logarithmic scale
+   */
+  recency: number;
+  /**
+   * Penalty per follow hop between us and the peer
+   */
+  hops: number;
+};
+
+export type ScoreContext = {
+  now: number;
+  hops?: number;
+};
+
+/**
+ * Higher scores are better candidates for connection.
+ */
+export type Scorer = (peer: Peer, context: ScoreContext) => number;
+
+export const DEFAULT_WEIGHTS: Readonly<ScoreWeights> = {
+  latency: 1,
+  duration: 1,
+  failure: 0.5,
+  recency: 1,
+  hops: 0.5,
+};
+
+const minute = 60e3;
+const day = 24 * 60 * minute;
+const MAX_LATENCY_SECONDS = 5;
+const MAX_FAILURES = 10;
+const MAX_HOPS = 3;
+
+export function validateScoring(config: any): string[] {
+  if (config === undefined) return [];
+  if (!config || typeof config !== 'object') return ['should be an object'];
+  const errors: Array<string> = [];
+  const {weights, scorer} = config;
+  if (weights !== undefined) {
+    if (!weights || typeof weights !== 'object') {
+      errors.push('weights should be an object');
+    } else {
+      for (const name of Object.keys(weights)) {
+        if (!(name in DEFAULT_WEIGHTS)) {
+          errors.push(`weights.${name} is not supported`);
+        } else if (typeof weights[name] !== 'number') {
+          errors.push(`weights.${name} should be a number`);
+        }
+      }
+    }
+  }
+  if (scorer !== undefined && typeof scorer !== 'function') {
+    errors.push('scorer should be a function');
+  }
+  return errors;
+}
+
+export function createScorer(weights: Partial<ScoreWeights> = {}): Scorer {
+  const w = {...DEFAULT_WEIGHTS, ...weights};
+  return ([, data], {now, hops}) => {
+    const rtt = data.ping && data.ping.rtt ? data.ping.rtt.mean : 0;
+    const latency = rtt > 0 ? Math.min(rtt / 1e3, MAX_LATENCY_SECONDS) : 0;
+
+    const meanDuration = data.duration ? data.duration.mean : 0;
+    const duration =
+      meanDuration > 0 ? Math.log10(1 + meanDuration / minute) : 0;
+
+    const failure = Math.min(data.failure || 0, MAX_FAILURES);
+
+    const elapsed = data.stateChange
+      ? Math.max(now - data.stateChange, 0)
+      : day;
+    const recency = Math.log10(1 + Math.min(elapsed, day) / minute);
+
+    const distance =
+      typeof hops === 'number' && hops >= 0
+        ? Math.min(hops, MAX_HOPS)
+        : MAX_HOPS;
+
+    return (
+      w.duration * duration +
+      w.recency * recency -
+      w.latency * latency -
+      w.failure * failure -
+      w.hops * distance
+    );
+  };
+}
@@ -0,0 +1,165 @@
+import ConnStaging = require('ssb-conn-staging');
+import {StagedData} from 'ssb-conn-staging/lib/types';
+import {Peer} from 'ssb-conn-query/lib/types';
+import {Environment} from './environment';
+import {JsonFile} from './json-file';
+const pull = require('pull-stream');
+
+export type StagingConfig = {
+  /**
+   * Whether to save staged peers (and how far we read `pub` messages) to
+   * disk, so that they are restored on startup
+   */
+  persist: boolean;
+  /**
+   * How long (ms) a peer stays staged since it was last staged, looked up by
+   * its `type`, then `default`. `null` means no limit.
+   */
+  ttl: {[type: string]: number | null};
+};
+
+type SavedStaging = {
+  /**
+   * Timestamp of the latest `pub` message processed by pub discovery
+   */
+  cursor?: number;
+  entries: Array<[string, StagedData]>;
+};
+
+const day = 24 * 60 * 60e3;
+
+export const DEFAULT_STAGING_CONFIG: Readonly<StagingConfig> = {
+  persist: false,
+  ttl: {
+    default: null,
+    pub: 7 * day,
+    room: 1 * day,
+    lan: 10e3,
+    bt: 30e3,
+  },
+};
+
+export function validateStaging(config: any): string[] {
+  if (config === undefined) return [];
+  if (!config || typeof config !== 'object') return ['should be an object'];
+  const errors: Array<string> = [];
+  const {persist, ttl} = config;
+  if (persist !== undefined && typeof persist !== 'boolean') {
+    errors.push('persist should be a boolean');
+  }
+  if (ttl !== undefined) {
+    if (!ttl || typeof ttl !== 'object') {
+      errors.push('ttl should be an object');
+    } else {
+      for (const type of Object.keys(ttl)) {
+        const value = ttl[type];
+        if (value !== null && !(typeof value === 'number' && value >= 0)) {
+          errors.push(`ttl.${type} should be a duration or null`);
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Expires staged peers by type, and optionally saves them to disk so they
+ * survive restarts.
+ */
+export class StagingStore {
+  private readonly staging: ConnStaging;
+  private readonly file: JsonFile<SavedStaging> | null;
+  private readonly env: Environment;
+  private readonly canStage: (address: string, data: StagedData) => boolean;
+  public readonly config: StagingConfig;
+  private _cursor: number | undefined;
+  private readonly drain: any;
+
+  constructor(
+    staging: ConnStaging,
+    file: JsonFile<SavedStaging>,
+    env: Environment,
+    canStage: (address: string, data: StagedData) => boolean,
+    config: Partial<StagingConfig> = {},
+  ) {
+    const errors = validateStaging(config);
+    if (errors.length > 0) {
+      throw new Error(
+        'Invalid config.conn.staging:\n  - ' + errors.join('\n  - '),
+      );
+    }
+    this.staging = staging;
+    this.env = env;
+    this.canStage = canStage;
+    this.config = {
+      ...DEFAULT_STAGING_CONFIG,
+      ...config,
+      ttl: {...DEFAULT_STAGING_CONFIG.ttl, ...config.ttl},
+    };
+    this.file = this.config.persist ? file : null;
+    this._cursor = undefined;
+
+    if (this.file) {
+      this.restore(this.file.load());
+      this.drain = pull.drain(() => this.save());
+      pull(staging.liveEntries(), this.drain);
+    }
+  }
+
+  private restore(saved: SavedStaging | undefined) {
+    if (!saved || typeof saved !== 'object') return;
+    if (typeof saved.cursor === 'number') this._cursor = saved.cursor;
+    if (!Array.isArray(saved.entries)) return;
+    const now = this.env.now();
+    for (const entry of saved.entries) {
+      if (!Array.isArray(entry) || typeof entry[0] !== 'string') continue;
+      if (!entry[1] || this.isExpired(entry as Peer, now)) continue;
+      // The peer may have been banned or rejected since it was saved
+      if (!this.canStage(entry[0], entry[1])) continue;
+      try {
+        this.staging.stage(entry[0], entry[1]);
+      } catch (err) {
+        // The address is not valid anymore, just skip it
+      }
+    }
+  }
+
+  private save() {
+    if (!this.file) return;
+    this.file.write({
+      cursor: this._cursor,
+      entries: Array.from(this.staging.entries()),
+    });
+  }
+
+  public ttl(type: string | undefined): number | null {
+    const ttl = this.config.ttl;
+    const value = type && type in ttl ? ttl[type] : ttl.default;
+    return value === undefined ? null : value;
+  }
+
+  public isExpired([, data]: Peer, now: number) {
+    const ttl = this.ttl(data.type);
+    if (ttl === null) return false;
+    return (data.stagingUpdated || 0) + ttl < now;
+  }
+
+  /**
+   * Timestamp of the latest `pub` message already processed, if persisted
+   */
+  public get cursor() {
+    return this._cursor;
+  }
+
+  public advanceCursor(timestamp: number) {
+    if (this._cursor !== undefined && this._cursor >= timestamp) return;
+    this._cursor = timestamp;
+    this.save();
+  }
+
+  public close() {
+    if (!this.file) return;
+    this.drain.abort();
+    this.file.flush();
+  }
+}
@@ -0,0 +1,104 @@
+import {JsonFile} from './json-file';
+
+/**
+ * The groups of peers that the scheduler discovers and connects to, which can
+ * be turned on and off at runtime
+ */
+export type DiscoveryKind = 'lan' | 'pub' | 'seed' | 'bt';
+
+export type DiscoveryState = Record<DiscoveryKind, boolean>;
+
+export const DISCOVERY_KINDS: Array<DiscoveryKind> = [
+  'lan',
+  'pub',
+  'seed',
+  'bt',
+];
+
+/**
+ * The names used by the legacy gossip plugin
+ */
+const ALIASES: Record<string, DiscoveryKind> = {
+  local: 'lan',
+  global: 'pub',
+};
+
+export function toDiscoveryKind(kind: string): DiscoveryKind {
+  const resolved = ALIASES[kind] || kind;
+  if (DISCOVERY_KINDS.indexOf(resolved as DiscoveryKind) < 0) {
+    throw new Error(
+      'Unknown discovery kind "' +
+        kind +
+        '", should be one of ' +
+        DISCOVERY_KINDS.join(', '),
+    );
+  }
+  return resolved as DiscoveryKind;
+}
+
+/**
+ * Which toggle applies to this peer, or null if none does, e.g. for peers
+ * added manually
+ */
+export function kindOf([, data]: [
+  string,
+  {type?: string; source?: string},
+]): DiscoveryKind | null {
+  if (!data) return null;
+  if (data.type === 'lan' || data.source === 'local') return 'lan';
+  if (data.type === 'bt' || data.source === 'bt') return 'bt';
+  if (data.source === 'seed') return 'seed';
+  if (data.type === 'pub' || data.source === 'pub') return 'pub';
+  return null;
+}
+
+/**
+ * Runtime toggles for each kind of discovery, persisted locally. Only the
+ * kinds toggled at runtime are persisted, the others follow the config.
+ */
+export class DiscoveryToggles {
+  private readonly file: JsonFile<Partial<DiscoveryState>>;
+  private readonly defaults: DiscoveryState;
+  private readonly toggled: Partial<DiscoveryState>;
+
+  constructor(
+    file: JsonFile<Partial<DiscoveryState>>,
+    defaults: DiscoveryState,
+  ) {
+    this.file = file;
+    this.defaults = defaults;
+    this.toggled = {};
+
+    const saved = file.load();
+    if (saved && typeof saved === 'object') {
+      for (const kind of DISCOVERY_KINDS) {
+        if (typeof saved[kind] === 'boolean') this.toggled[kind] = saved[kind];
+      }
+    }
+  }
+
+  public isEnabled(kind: DiscoveryKind): boolean {
+    const toggled = this.toggled[kind];
+    return typeof toggled === 'boolean' ? toggled : this.defaults[kind];
+  }
+
+  /**
+   * Returns whether this changed the state of that kind
+   */
+  public set(kind: DiscoveryKind, enabled: boolean): boolean {
+    const changed = this.isEnabled(kind) !== enabled;
+    this.toggled[kind] = enabled;
+    this.file.write({...this.toggled});
+    return changed;
+  }
+
+  public state(): DiscoveryState {
+    const state = {} as DiscoveryState;
+    for (const kind of DISCOVERY_KINDS) state[kind] = this.isEnabled(kind);
+    return state;
+  }
+
+  public close() {
+    this.file.flush();
+  }
+}
@@ -0,0 +1,89 @@
+const ip = require('ip');
+
+type PeerData = {type?: string; [name: string]: any};
+
+/**
+ * Transports in the order we prefer them, unless configured otherwise
+ */
+export const DEFAULT_TRANSPORTS: ReadonlyArray<string> = [
+  'lan',
+  'bt',
+  'net',
+  'ws',
+  'tunnel',
+  'onion',
+  'dht',
+];
+
+function isPrivateHost(host: string) {
+  if (!ip.isV4Format(host) && !ip.isV6Format(host)) return false;
+  try {
+    return ip.isPrivate(host);
+  } catch (err) {
+    return false;
+  }
+}
+
+/**
+ * The name of the transport used by the (first) multiserver address, where
+ * `net` addresses on private networks are called `lan`.
+ */
+export function transportOf(address: string, data: PeerData = {}) {
+  const [protocol, host] = address
+    .split(';')[0]
+    .split('~')[0]
+    .split(':');
+  if (protocol === 'net') {
+    if (data.type === 'lan' || isPrivateHost(host)) return 'lan';
+    return 'net';
+  }
+  if (protocol === 'wss') return 'ws';
+  return protocol || 'unknown';
+}
+
+export function validateTransports(transports: any): string[] {
+  if (transports === undefined || transports === null) return [];
+  if (!Array.isArray(transports)) return ['should be an array'];
+  return transports
+    .map((t: any, i: number) =>
+      typeof t === 'string' && t ? '' : `[${i}] should be a transport name`,
+    )
+    .filter(Boolean);
+}
+
+/**
+ * Ranks addresses by their transport. When the order is configured, the
+ * transports missing from it are not allowed at all.
+ */
+export class TransportPreference {
+  private readonly order: ReadonlyArray<string>;
+  private readonly strict: boolean;
+
+  constructor(order?: Array<string> | null) {
+    const errors = validateTransports(order);
+    if (errors.length > 0) {
+      throw new Error(
+        'Invalid config.conn.transports:\n  - ' + errors.join('\n  - '),
+      );
+    }
+    this.strict = !!order;
+    this.order = order || DEFAULT_TRANSPORTS;
+  }
+
+  public list() {
+    return this.order.slice();
+  }
+
+  /**
+   * Lower is better, Infinity if the transport is not allowed
+   */
+  public rank(address: string, data?: PeerData): number {
+    const i = this.order.indexOf(transportOf(address, data));
+    if (i >= 0) return i;
+    return this.strict ? Infinity : this.order.length;
+  }
+
+  public isAllowed(address: string, data?: PeerData) {
+    return this.rank(address, data) !== Infinity;
+  }
+}
@@ -1,3 +1,7 @@
+/**
+ * A peer as described by the legacy gossip APIs. Entries stored in ConnDB
+ * follow `StoredData` from the schema module instead.
+ */
 export type Peer = {
   address?: string;
   key?: string;
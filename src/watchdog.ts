@@ -0,0 +1,236 @@
+import ConnHub = require('ssb-conn-hub');
+import {ListenEvent as HubEvent} from 'ssb-conn-hub/lib/types';
+import {Environment} from './environment';
+const pull = require('pull-stream');
+const cat = require('pull-cat');
+const Notify = require('pull-notify');
+const debug = require('debug')('ssb:conn:watchdog');
+
+export type HealthState = 'healthy' | 'degraded' | 'isolated' | 'offline';
+
+export type HealthProblem =
+  | 'offline'
+  | 'no-connections'
+  | 'failure-streak'
+  | 'stuck-connecting'
+  | 'no-replication';
+
+export type Health = {
+  state: HealthState;
+  problems: Array<HealthProblem>;
+  /**
+   * When the node entered this state
+   */
+  since: number;
+  checkedAt: number;
+  connected: number;
+  connecting: number;
+  /**
+   * Connection attempts that failed in a row
+   */
+  failureStreak: number;
+  /**
+   * The latest time we had a connection, or null if never
+   */
+  lastConnectedAt: number | null;
+  /**
+   * The latest message received from another feed, or null if unknown
+   */
+  lastReplicationAt: number | null;
+};
+
+export type WatchdogConfig = {
+  /**
+   * Milliseconds without connections until the node is isolated
+   */
+  isolatedAfter: number;
+  /**
+   * Failed connection attempts in a row until the node is degraded
+   */
+  maxFailureStreak: number;
+  /**
+   * Peers in "connecting" at once until the node is degraded
+   */
+  maxConnecting: number;
+  /**
+   * Milliseconds connected without receiving messages until the node is
+   * degraded, or 0 to never check
+   */
+  replicationGap: number;
+};
+
+export const DEFAULT_WATCHDOG_CONFIG: Readonly<WatchdogConfig> = {
+  isolatedAfter: 5 * 60e3,
+  maxFailureStreak: 10,
+  maxConnecting: 5,
+  replicationGap: 60 * 60e3,
+};
+
+export function validateWatchdog(config: any): string[] {
+  if (config === undefined) return [];
+  if (!config || typeof config !== 'object') return ['should be an object'];
+  const errors: Array<string> = [];
+  for (const name of ['isolatedAfter', 'replicationGap']) {
+    const value = config[name];
+    if (value !== undefined && !(typeof value === 'number' && value >= 0)) {
+      errors.push(`${name} should be a duration`);
+    }
+  }
+  for (const name of ['maxFailureStreak', 'maxConnecting']) {
+    const value = config[name];
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      errors.push(`${name} should be a positive integer`);
+    }
+  }
+  return errors;
+}
+
+function sameProblems(a: Array<HealthProblem>, b: Array<HealthProblem>) {
+  return a.length === b.length && a.every((problem, i) => problem === b[i]);
+}
+
+/**
+ * Tracks whether the node is healthy, degraded, isolated or offline, from
+ * the connections in ConnHub, the failure streak and the replication.
+ */
+export class ConnWatchdog {
+  public readonly config: WatchdogConfig;
+  private readonly hub: ConnHub;
+  private readonly env: Environment;
+  private readonly lastReplication: () => number | null;
+  private readonly notify: any;
+  private drain: any;
+  private startedAt: number;
+  private connectedSince: number | null;
+  private lastConnectedAt: number | null;
+  private failureStreak: number;
+  private latest: Health | null;
+
+  constructor(
+    hub: ConnHub,
+    env: Environment,
+    lastReplication: () => number | null,
+    config: Partial<WatchdogConfig> = {},
+  ) {
+    const errors = validateWatchdog(config);
+    if (errors.length > 0) {
+      throw new Error(
+        'Invalid config.conn.watchdog:\n  - ' + errors.join('\n  - '),
+      );
+    }
+    this.config = {...DEFAULT_WATCHDOG_CONFIG, ...config};
+    this.hub = hub;
+    this.env = env;
+    this.lastReplication = lastReplication;
+    this.notify = Notify();
+    this.drain = null;
+    this.startedAt = env.now();
+    this.connectedSince = null;
+    this.lastConnectedAt = null;
+    this.failureStreak = 0;
+    this.latest = null;
+  }
+
+  private onHubEvent(ev: HubEvent) {
+    if (ev.type === 'connecting-failed') this.failureStreak += 1;
+    if (ev.type === 'connected') this.failureStreak = 0;
+    // We were connected until now, even if this was the last connection
+    if (ev.type === 'disconnected') this.lastConnectedAt = this.env.now();
+    this.check();
+  }
+
+  private problems(now: number, connected: number, connecting: number) {
+    const problems: Array<HealthProblem> = [];
+    if (!this.env.hasNetwork()) problems.push('offline');
+    if (connected === 0) problems.push('no-connections');
+    if (this.failureStreak >= this.config.maxFailureStreak) {
+      problems.push('failure-streak');
+    }
+    if (connecting >= this.config.maxConnecting) {
+      problems.push('stuck-connecting');
+    }
+    const lastReplication = this.lastReplication();
+    const gap = this.config.replicationGap;
+    if (gap > 0 && lastReplication !== null && this.connectedSince !== null) {
+      const since = Math.max(lastReplication, this.connectedSince);
+      if (now - since >= gap) problems.push('no-replication');
+    }
+    return problems;
+  }
+
+  public start() {
+    if (this.drain) return;
+    this.startedAt = this.env.now();
+    this.drain = pull.drain((ev: HubEvent) => this.onHubEvent(ev));
+    pull(this.hub.listen(), this.drain);
+    this.check();
+  }
+
+  public stop() {
+    if (this.drain) this.drain.abort();
+    this.drain = null;
+  }
+
+  /**
+   * Computes the health now, notifying listeners if the state or the
+   * problems changed
+   */
+  public check(): Health {
+    const now = this.env.now();
+    let connected = 0;
+    let connecting = 0;
+    for (const [, data] of this.hub.entries()) {
+      if (data.state === 'connected') connected += 1;
+      if (data.state === 'connecting') connecting += 1;
+    }
+    if (connected > 0) {
+      this.lastConnectedAt = now;
+      if (this.connectedSince === null) this.connectedSince = now;
+    } else {
+      this.connectedSince = null;
+    }
+
+    const problems = this.problems(now, connected, connecting);
+    const disconnectedFor = now - (this.lastConnectedAt || this.startedAt);
+    let state: HealthState = problems.length > 0 ? 'degraded' : 'healthy';
+    if (connected === 0 && disconnectedFor >= this.config.isolatedAfter) {
+      state = 'isolated';
+    }
+    if (problems.indexOf('offline') >= 0) state = 'offline';
+
+    const prev = this.latest;
+    const lastReplication = this.lastReplication();
+    this.latest = {
+      state,
+      problems,
+      since: prev && prev.state === state ? prev.since : now,
+      checkedAt: now,
+      connected,
+      connecting,
+      failureStreak: this.failureStreak,
+      lastConnectedAt: this.lastConnectedAt,
+      lastReplicationAt: lastReplication ? lastReplication : null,
+    };
+    if (
+      !prev ||
+      prev.state !== state ||
+      !sameProblems(prev.problems, problems)
+    ) {
+      debug('health is %s: %o', state, problems);
+      this.notify(this.latest);
+    }
+    return this.latest;
+  }
+
+  public health(): Health {
+    return this.check();
+  }
+
+  /**
+   * The current health, then every change of state or problems
+   */
+  public liveHealth() {
+    const current = this.check();
+    return cat([pull.values([current]), this.notify.listen()]);
+  }
+}
@@ -0,0 +1,104 @@
+const tape = require('tape');
+const mock = require('./mock');
+const createSimulation = require('./sim');
+
+const KEY_A = 'pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+const KEY_B = Buffer.alloc(32, 1).toString('base64');
+const ID_A = `@${KEY_A}.ed25519`;
+const ID_B = `@${KEY_B}.ed25519`;
+const ADDR_A = `net:localhost:9001~shs:${KEY_A}`;
+const ADDR_B = `net:localhost:9002~shs:${KEY_B}`;
+
+tape('config.conn.allowlist refuses connections to other keys', t => {
+  const ssb = mock({conn: {allowlist: [ID_A]}});
+
+  t.deepEquals(ssb.conn.allowlist(), [ID_A], 'allowlist()');
+  t.true(ssb.conn.isAllowed(ADDR_A), 'A is allowed');
+  t.false(ssb.conn.isAllowed(ADDR_B), 'B is not allowed');
+  t.false(ssb.conn.stage(ADDR_B), 'stage() refused B');
+  t.equals(ssb.gossip.add(ADDR_B, 'pub'), undefined, 'gossip.add() ignored B');
+  t.false(ssb.conn.db().has(ADDR_B), 'B is not in the database');
+
+  ssb.conn.connect(ADDR_B, err => {
+    t.ok(err, 'connect() to B failed');
+    t.true(err.message.includes('not allowed'), 'because it is not allowed');
+
+    ssb.conn.connect(ADDR_A, (err2, result) => {
+      t.error(err2, 'connect() to A succeeded');
+      t.ok(result, 'with a result');
+      t.end();
+    });
+  });
+});
+
+tape('invalid config.conn.allowlist throws', t => {
+  try {
+    mock({conn: {allowlist: ['not a feed']}});
+    t.fail('should have thrown');
+  } catch (err) {
+    t.true(err.message.includes('not a feed ID'), 'throws');
+  }
+  t.end();
+});
+
+tape('allow() enables the mode and drops other peers', t => {
+  const ssb = mock();
+  t.equals(ssb.conn.allowlist(), null, 'mode is disabled by default');
+  t.true(ssb.conn.isAllowed(ADDR_B), 'everyone is allowed');
+  t.true(ssb.conn.stage(ADDR_B, {type: 'lan'}), 'B staged');
+
+  ssb.conn.allow(ID_A);
+  t.deepEquals(ssb.conn.allowlist(), [ID_A], 'mode is enabled');
+  t.equals(ssb.conn.staging().get(ADDR_B), undefined, 'B was unstaged');
+
+  t.true(ssb.conn.disallow(ID_A), 'disallow() returns true');
+  t.false(ssb.conn.disallow(ID_A), 'second disallow() returns false');
+  t.deepEquals(ssb.conn.allowlist(), [], 'mode remains enabled');
+  t.false(ssb.conn.isAllowed(ADDR_A), 'A is not allowed anymore');
+
+  ssb.conn.disableAllowlist();
+  t.equals(ssb.conn.allowlist(), null, 'mode is disabled');
+  t.true(ssb.conn.isAllowed(ADDR_A), 'everyone is allowed again');
+  t.end();
+});
+
+tape('inbound connections from other keys are dropped', t => {
+  const ssb = mock({conn: {allowlist: [ID_A]}});
+
+  const rpc = {
+    id: ID_B,
+    stream: {address: `net:127.0.0.1:9002~shs:${KEY_B}`},
+    on() {},
+    close(_force, cb) {
+      t.pass('the connection was closed');
+      cb();
+      t.end();
+    },
+  };
+  ssb.conn.hub()._onRpcConnect(rpc, false);
+});
+
+tape('the scheduler ignores seeds and peers outside the allowlist', async t => {
+  const sim = createSimulation({
+    seed: 5,
+    peers: [{address: ADDR_A}, {address: ADDR_B}],
+    config: {seeds: [ADDR_A, ADDR_B], conn: {allowlist: [ID_A]}},
+  });
+  sim.ssb.conn.remember(ADDR_B, {source: 'manual'});
+  await sim.start();
+  t.equals(sim.ssb.conn.db().get(ADDR_A).source, 'seed', 'A was seeded');
+
+  const exclusions = new Set();
+  for (let i = 0; i < 20; i++) {
+    await sim.advance(500);
+    const explanation = sim.ssb.connScheduler.explain(ADDR_B);
+    if (!explanation) continue;
+    for (const c of explanation.candidates) exclusions.add(c.excludedBy);
+  }
+  t.deepEquals(Array.from(exclusions), ['not-allowed'], 'B is excluded');
+  t.true(sim.attemptsTo(ADDR_A).length > 0, 'connected to A');
+  t.equals(sim.attemptsTo(ADDR_B).length, 0, 'never connected to B');
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
@@ -0,0 +1,132 @@
+const tape = require('tape');
+const os = require('os');
+const fs = require('fs');
+const path = require('path');
+const mock = require('./mock');
+const createSimulation = require('./sim');
+const {BanList} = require('../lib/bans');
+const {JsonFile} = require('../lib/json-file');
+
+const TEST_KEY = '@pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=.ed25519';
+const TEST_ADDR =
+  'net:localhost:9752~shs:pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+const OTHER_ADDR =
+  'net:localhost:9753~shs:4QdlOF3ewTu9cxmrgTkYnxqomM2DPKaGfm/p9C3VJh0=';
+
+tape('ban(), unban() and bans() manage the ban list', t => {
+  const ssb = mock();
+
+  const ban = ssb.conn.ban(TEST_KEY, {reason: 'spam'});
+  t.equals(ban.target, TEST_KEY, 'ban has the target');
+  t.equals(ban.reason, 'spam', 'ban has the reason');
+  t.equals(typeof ban.createdAt, 'number', 'ban has a timestamp');
+  t.deepEquals(ssb.conn.bans(), [ban], 'bans() lists the ban');
+  t.true(ssb.conn.isBanned(TEST_ADDR), 'address with the key is banned');
+  t.false(ssb.conn.isBanned(OTHER_ADDR), 'other address is not banned');
+
+  try {
+    ssb.conn.ban('not an address');
+    t.fail('should have thrown');
+  } catch (err) {
+    t.true(err.message.includes('not a feed ID nor an address'), 'throws');
+  }
+
+  t.true(ssb.conn.unban(TEST_KEY), 'unban() returns true');
+  t.false(ssb.conn.unban(TEST_KEY), 'second unban() returns false');
+  t.deepEquals(ssb.conn.bans(), [], 'no bans');
+  t.false(ssb.conn.isBanned(TEST_ADDR), 'address is not banned anymore');
+  t.end();
+});
+
+tape('connect() and stage() refuse banned peers', t => {
+  const ssb = mock();
+  ssb.conn.ban(TEST_ADDR);
+
+  t.false(ssb.conn.stage(TEST_ADDR), 'stage() refused');
+  t.equals(ssb.conn.staging().get(TEST_ADDR), undefined, 'not staged');
+
+  ssb.conn.connect(TEST_ADDR, (err, result) => {
+    t.ok(err, 'connect() failed');
+    t.true(err.message.includes('banned'), 'because it is banned');
+    t.notOk(result, 'no result');
+    t.equals(ssb.conn.hub().getState(TEST_ADDR), undefined, 'not in hub');
+    t.end();
+  });
+});
+
+tape('ban() disconnects and unstages matching peers', t => {
+  const ssb = mock();
+
+  t.true(ssb.conn.stage(OTHER_ADDR, {type: 'lan'}), 'staged');
+  ssb.conn.connect(TEST_ADDR, err => {
+    t.error(err, 'connected');
+    ssb.conn.ban(TEST_KEY);
+    ssb.conn.ban(OTHER_ADDR);
+    t.equals(ssb.conn.staging().get(OTHER_ADDR), undefined, 'unstaged');
+    setTimeout(() => {
+      t.equals(ssb.conn.hub().getState(TEST_ADDR), undefined, 'disconnected');
+      t.end();
+    }, 100);
+  });
+});
+
+tape('inbound connections from banned peers are dropped', t => {
+  const ssb = mock();
+  ssb.conn.ban(TEST_KEY);
+
+  const rpc = {
+    id: TEST_KEY,
+    stream: {
+      address:
+        'net:127.0.0.1:9752~shs:pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=',
+    },
+    on() {},
+    close(_force, cb) {
+      t.pass('the connection was closed');
+      cb();
+      t.end();
+    },
+  };
+  ssb.conn.hub()._onRpcConnect(rpc, false);
+});
+
+tape('BanList expires bans and persists them', t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'connbans-'));
+  const filePath = path.join(dir, 'conn-bans.json');
+  let now = 1000;
+  const env = {now: () => now};
+
+  const bans = new BanList(new JsonFile(filePath), env);
+  bans.ban(TEST_KEY, {until: 2000});
+  bans.ban(OTHER_ADDR);
+  t.true(bans.isBanned(TEST_ADDR), 'banned before expiry');
+  bans.close();
+
+  const reloaded = new BanList(new JsonFile(filePath), env);
+  t.equals(reloaded.list().length, 2, 'bans were loaded from disk');
+  now = 2000;
+  t.false(reloaded.isBanned(TEST_ADDR), 'not banned after expiry');
+  t.deepEquals(
+    reloaded.list().map(ban => ban.target),
+    [OTHER_ADDR],
+    'expired ban was removed',
+  );
+  reloaded.close();
+  t.end();
+});
+
+tape('the scheduler does not remember banned seeds', async t => {
+  const sim = createSimulation({
+    seed: 29,
+    peers: [{address: TEST_ADDR}, {address: OTHER_ADDR}],
+    config: {seeds: [TEST_ADDR, OTHER_ADDR]},
+  });
+  sim.ssb.conn.ban(TEST_KEY);
+  await sim.start();
+  await sim.advance(10e3);
+  t.false(sim.ssb.conn.db().has(TEST_ADDR), 'banned seed not remembered');
+  t.equals(sim.attemptsTo(TEST_ADDR).length, 0, 'not connected to');
+  t.true(sim.ssb.conn.db().has(OTHER_ADDR), 'other seed remembered');
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
@@ -0,0 +1,101 @@
+const tape = require('tape');
+const mock = require('./mock');
+const {validateConfig} = require('../lib/config');
+
+const KEY = 'pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+const SEED = `net:seed.example.com:8008~shs:${KEY}`;
+
+tape('validateConfig() aggregates errors and warnings', t => {
+  const {errors, warnings} = validateConfig({
+    conn: {
+      autostrat: false,
+      privacy: 'paranoid',
+      gc: {interval: -1},
+      scheduler: {rules: 'none', foo: 1},
+      transports: ['net', 2],
+    },
+    gossip: {seed: 'no', pub: '', connections: 3},
+    timers: {ping: 'soon'},
+    seeds: [SEED, 'seed.example.com'],
+  });
+  t.deepEquals(
+    errors,
+    [
+      'config.conn.privacy should be one of tor-only',
+      'config.conn.gc.interval should be a duration',
+      'config.conn.scheduler.rules must be an array',
+      'config.conn.transports[1] should be a transport name',
+      'config.gossip.seed should be a boolean',
+      'config.timers.ping should be a duration',
+      'config.seeds[1] should be a multiserver address',
+    ],
+    'errors',
+  );
+  t.deepEquals(
+    warnings,
+    [
+      'config.conn.autostrat is not a known option, did you mean "autostart"?',
+      'config.conn.scheduler.foo is not a known option',
+      'config.gossip.pub is an empty string, using the default',
+    ],
+    'warnings',
+  );
+  t.deepEquals(validateConfig({}), {errors: [], warnings: []}, 'empty');
+  t.end();
+});
+
+tape('validateConfig() compares maxIdle with the ping timeout', t => {
+  const short = {conn: {rotation: {maxIdle: 60e3}}};
+  t.deepEquals(
+    validateConfig(short).errors,
+    [
+      'config.conn.rotation.maxIdle should be 0 or longer than ' +
+        'config.conn.latency.pingTimeout (300000ms)',
+    ],
+    'shorter than the default ping timeout',
+  );
+  const pingFaster = {...short.conn, latency: {pingTimeout: 30e3}};
+  t.deepEquals(validateConfig({conn: pingFaster}).errors, [], 'longer');
+  const disabled = {conn: {rotation: {maxIdle: 0}}};
+  t.deepEquals(validateConfig(disabled).errors, [], 'disabled');
+  t.end();
+});
+
+tape('CONN refuses to start with an invalid config', t => {
+  try {
+    mock({conn: {gc: {maxAge: 'long'}, latency: {window: 0}}});
+    t.fail('should have thrown');
+  } catch (err) {
+    const lines = err.message.split('\n');
+    t.equals(lines[0], 'Invalid config:', 'header');
+    t.true(lines.some(l => l.includes('config.conn.gc.maxAge')), 'gc');
+    t.true(lines.some(l => l.includes('config.conn.latency.window')), 'window');
+  }
+  t.end();
+});
+
+tape('conn.config() returns the resolved config', t => {
+  const ssb = mock({
+    conn: {autostart: false, gc: {maxEntries: 10}, privacy: 'tor-only'},
+    gossip: {pub: false, seed: ''},
+    timers: {ping: 1e3},
+    seeds: SEED,
+  });
+
+  const config = ssb.conn.config();
+  t.false(config.conn.autostart, 'autostart');
+  t.equals(config.conn.gc.maxEntries, 10, 'configured');
+  t.equals(config.conn.gc.maxFailures, 100, 'default');
+  t.deepEquals(config.conn.transports, ['onion'], 'tor-only');
+  t.deepEquals(config.gossip, {seed: true, pub: false, autoPopulate: true});
+  t.equals(config.timers.ping, 10e3, 'ping timeout limited');
+  t.deepEquals(config.seeds, [SEED], 'seeds as an array');
+  t.equals(config.conn.scheduler.latency, null, 'no latency limits');
+  t.equals(config.conn.scheduler.interval, 2e3, 'scheduler interval');
+
+  const {warnings} = config;
+  t.equals(warnings.length, 2, 'warnings');
+  t.true(warnings.some(w => w.includes('gossip.seed is an empty')), 'empty');
+  t.true(warnings.some(w => w.includes('timers.ping is limited')), 'ping');
+  t.end();
+});
@@ -0,0 +1,78 @@
+const tape = require('tape');
+const pull = require('pull-stream');
+const {DecisionLog} = require('../lib/decisions');
+
+const ADDR_A = 'net:a.com:8008~shs:AAAA';
+const ADDR_B = 'net:b.com:8008~shs:BBBB';
+
+tape('DecisionLog explains the latest complete tick', t => {
+  const log = new DecisionLog();
+  t.equals(log.explain(), null, 'nothing to explain before any tick');
+
+  log.beginTick(1000);
+  log.consider([ADDR_A, {key: '@a'}], 'pinged', 'exp-backoff');
+  log.consider([ADDR_B, {key: '@b'}], 'pinged');
+  log.decide('connect', [ADDR_B, {key: '@b'}], 'below-quota', 'pinged');
+  t.equals(log.explain(), null, 'incomplete tick is not explained');
+  log.endTick();
+
+  const explanation = log.explain();
+  t.equals(explanation.tick, 1, 'tick number');
+  t.equals(explanation.timestamp, 1000, 'tick timestamp');
+  t.deepEquals(
+    explanation.candidates,
+    [
+      {address: ADDR_A, key: '@a', rule: 'pinged', excludedBy: 'exp-backoff'},
+      {address: ADDR_B, key: '@b', rule: 'pinged'},
+    ],
+    'candidates and their exclusions',
+  );
+  t.equals(explanation.decisions.length, 1, 'one decision');
+
+  const onlyA = log.explain(ADDR_A);
+  t.equals(onlyA.candidates.length, 1, 'narrowed to one candidate');
+  t.equals(onlyA.decisions.length, 0, 'no decisions about A');
+
+  const tick = explanation.tick;
+  log.skipTick(2000, 'downloading');
+  const skipped = log.explain();
+  t.equals(skipped.tick, tick, 'still explains the latest real tick');
+  t.equals(skipped.candidates.length, 2, 'with its candidates');
+  t.deepEquals(
+    skipped.skipped,
+    {tick: tick + 1, timestamp: 2000, reason: 'downloading'},
+    'and the skipped tick',
+  );
+  t.deepEquals(log.explain(ADDR_A).skipped, skipped.skipped, 'narrowed too');
+
+  log.beginTick(3000);
+  log.endTick();
+  t.equals(log.explain().skipped, undefined, 'skip forgotten after a tick');
+  t.end();
+});
+
+tape('DecisionLog streams every decision', t => {
+  const log = new DecisionLog();
+  pull(
+    log.listen(),
+    pull.collect((err, decisions) => {
+      t.error(err, 'no error');
+      t.deepEquals(
+        decisions.map(d => [d.action, d.address, d.reason]),
+        [
+          ['connect', ADDR_A, 'below-quota'],
+          ['disconnect', ADDR_B, 'stuck-connecting'],
+        ],
+        'decisions with their reasons',
+      );
+      t.end();
+    }),
+  );
+  log.beginTick(1000);
+  log.decide('connect', [ADDR_A, {}], 'below-quota', 'seeds');
+  log.endTick();
+  log.beginTick(2000);
+  log.decide('disconnect', [ADDR_B, {}], 'stuck-connecting');
+  log.endTick();
+  log.close();
+});
@@ -0,0 +1,120 @@
+const tape = require('tape');
+const pull = require('pull-stream');
+const createSimulation = require('./sim');
+
+function address(i) {
+  const key = Buffer.alloc(32, i).toString('base64');
+  return `net:peer${i}.example.com:8008~shs:${key}`;
+}
+
+function feedId(i) {
+  return `@${Buffer.alloc(32, i).toString('base64')}.ed25519`;
+}
+
+function collect(source) {
+  const events = [];
+  pull(source, pull.drain(ev => events.push(ev)));
+  return events;
+}
+
+tape('conn.events() emits ConnDB and ConnStaging changes', t => {
+  const sim = createSimulation({seed: 67});
+  const all = collect(sim.ssb.conn.events());
+  const ofPeer1 = collect(sim.ssb.conn.events({key: feedId(1)}));
+  const staging = collect(sim.ssb.conn.events({types: ['staging']}));
+
+  sim.ssb.conn.remember(address(1), {key: feedId(1), source: 'manual'});
+  sim.ssb.conn.db().update(address(1), {failure: 1});
+  sim.ssb.conn.remember(address(2), {key: feedId(2), source: 'manual'});
+  sim.ssb.conn.forget(address(1));
+  sim.ssb.conn.stage(address(3), {type: 'internet', key: feedId(3)});
+  sim.ssb.conn.unstage(address(3));
+
+  t.deepEquals(
+    all.map(ev => [ev.type, ev.address]),
+    [
+      ['db:remembered', address(1)],
+      ['db:updated', address(1)],
+      ['db:remembered', address(2)],
+      ['db:forgotten', address(1)],
+      ['staging:staged', address(3)],
+      ['staging:unstaged', address(3)],
+    ],
+    'every change',
+  );
+  t.equals(all[1].data.failure, 1, 'with the data after the change');
+  t.equals(all[0].timestamp, sim.clock.now(), 'with a timestamp');
+  t.deepEquals(
+    ofPeer1.map(ev => ev.type),
+    ['db:remembered', 'db:updated', 'db:forgotten'],
+    'filtered by key, even when forgotten',
+  );
+  t.deepEquals(
+    staging.map(ev => [ev.type, ev.key]),
+    [
+      ['staging:staged', feedId(3)],
+      ['staging:unstaged', feedId(3)],
+    ],
+    'filtered by pool',
+  );
+  t.end();
+});
+
+tape('conn.events() can replay the current state first', t => {
+  const sim = createSimulation({seed: 71});
+  sim.ssb.conn.remember(address(1), {key: feedId(1), source: 'manual'});
+  sim.ssb.conn.stage(address(2), {type: 'internet', key: feedId(2)});
+
+  const events = collect(sim.ssb.conn.events({replay: true}));
+  sim.ssb.conn.forget(address(1));
+
+  t.deepEquals(
+    events.map(ev => [ev.type, ev.address, !!ev.replayed]),
+    [
+      ['db:remembered', address(1), true],
+      ['staging:staged', address(2), true],
+      ['db:forgotten', address(1), false],
+    ],
+    'current state, then changes',
+  );
+
+  const onlyOne = collect(
+    sim.ssb.conn.events({replay: true, address: address(2)}),
+  );
+  t.deepEquals(onlyOne.map(ev => ev.type), ['staging:staged'], 'filtered');
+  t.end();
+});
+
+tape('conn.events() emits connections and scheduler decisions', async t => {
+  const sim = createSimulation({
+    seed: 73,
+    peers: [{address: address(1)}],
+    config: {conn: {probe: {interval: 0}}},
+  });
+  sim.ssb.conn.remember(address(1), {key: feedId(1), source: 'manual'});
+  const events = collect(
+    sim.ssb.conn.events({address: address(1), types: ['hub', 'scheduler']}),
+  );
+  const updates = collect(sim.ssb.conn.events({types: ['db:updated']}));
+
+  await sim.start();
+  await sim.advance(3e3);
+
+  t.deepEquals(
+    events.map(ev => ev.type),
+    ['scheduler:decision', 'hub:connecting', 'hub:connected'],
+    'decided, then connected',
+  );
+  const {decision} = events[0];
+  t.equals(decision.action, 'connect', 'decision action');
+  t.equals(decision.reason, 'below-quota', 'decision reason');
+  t.equals(events[2].key, feedId(1), 'with the key');
+  t.equals(events[2].data.state, 'connected', 'with the ConnHub data');
+  t.true(
+    updates.some(ev => ev.address === address(1) && ev.data.lastConnected),
+    'stats updated in ConnDB',
+  );
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
@@ -0,0 +1,117 @@
+const tape = require('tape');
+const createSimulation = require('./sim');
+
+const minute = 60e3;
+const day = 24 * 60 * minute;
+
+function address(i) {
+  const key = Buffer.alloc(32, i).toString('base64');
+  return `net:peer${i}.example.com:8008~shs:${key}`;
+}
+
+function feedId(i) {
+  return `@${Buffer.alloc(32, i).toString('base64')}.ed25519`;
+}
+
+tape('conn.gc() removes addresses according to the policies', t => {
+  const sim = createSimulation({seed: 53, config: {conn: {gc: {interval: 0}}}});
+  const now = sim.clock.now();
+  const old = now - 200 * day;
+  const db = sim.ssb.conn.db();
+  db.set(address(1), {birth: now, failure: 150});
+  db.set(address(2), {birth: old});
+  db.set(address(3), {birth: old, source: 'seed'});
+  db.set(address(4), {birth: old, key: feedId(4)});
+  db.set(address(5), {birth: old, pinned: true});
+  db.set(address(6), {birth: old, lastConnected: now - day});
+  db.set(address(7), {birth: now});
+  db.set(address(8), {});
+  sim.ssb.conn.query().setHops({[feedId(4)]: 1});
+
+  const report = sim.ssb.conn.gc({dryRun: true});
+  t.true(report.dryRun, 'dry run');
+  t.deepEquals(
+    report.removed.map(({address, reason}) => [address, reason]),
+    [
+      [address(1), 'max-failures'],
+      [address(2), 'max-age'],
+    ],
+    'reports what would be removed',
+  );
+  t.equals(Array.from(db.entries()).length, 8, 'nothing removed yet');
+
+  const result = sim.ssb.conn.gc();
+  t.false(result.dryRun, 'not a dry run');
+  t.equals(result.removed.length, 2, 'removed two');
+  t.false(db.has(address(1)), 'failing address removed');
+  t.false(db.has(address(2)), 'old address removed');
+  for (const i of [3, 4, 5, 6, 7, 8]) t.true(db.has(address(i)), `kept ${i}`);
+  t.end();
+});
+
+tape('conn.gc() evicts the least recently used beyond maxEntries', t => {
+  const sim = createSimulation({
+    seed: 59,
+    config: {conn: {gc: {interval: 0, maxEntries: 2}}},
+  });
+  const now = sim.clock.now();
+  const db = sim.ssb.conn.db();
+  db.set(address(1), {birth: now - 3 * day, stateChange: now - day});
+  db.set(address(2), {birth: now - 3 * day});
+  db.set(address(3), {birth: now - 2 * day});
+
+  const result = sim.ssb.conn.gc();
+  t.deepEquals(
+    result.removed,
+    [{address: address(2), key: undefined, reason: 'max-entries'}],
+    'removed the least recently used',
+  );
+  t.true(db.has(address(1)), 'recently used kept');
+  t.true(db.has(address(3)), 'recently added kept');
+  t.end();
+});
+
+tape('garbage collection runs on startup and periodically', async t => {
+  const sim = createSimulation({
+    seed: 61,
+    config: {conn: {gc: {interval: minute, maxAge: 10 * minute}}},
+  });
+  const now = sim.clock.now();
+  const db = sim.ssb.conn.db();
+  db.set(address(1), {birth: now - 11 * minute});
+  db.set(address(2), {birth: now - 5 * minute});
+
+  await sim.start();
+  t.false(db.has(address(1)), 'removed on startup');
+  t.true(db.has(address(2)), 'still young');
+
+  await sim.advance(6 * minute);
+  t.false(db.has(address(2)), 'removed later');
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
+
+tape('garbage collection is automatic unless the interval is 0', async t => {
+  const sim = createSimulation({seed: 67});
+  const db = sim.ssb.conn.db();
+  db.set(address(1), {birth: sim.clock.now() - 200 * day});
+  db.set(address(2), {birth: sim.clock.now() - 100 * day});
+  await sim.start();
+  t.false(db.has(address(1)), 'removed on startup');
+  t.true(db.has(address(2)), 'younger than the default maxAge');
+  sim.ssb.connScheduler.stop();
+
+  const manual = createSimulation({
+    seed: 71,
+    config: {conn: {gc: {interval: 0}}},
+  });
+  const manualDb = manual.ssb.conn.db();
+  manualDb.set(address(3), {birth: manual.clock.now() - 200 * day});
+  await manual.start();
+  await manual.advance(2 * 60 * minute);
+  t.true(manualDb.has(address(3)), 'kept');
+  t.equals(manual.ssb.conn.gc().removed.length, 1, 'removed on demand');
+  manual.ssb.connScheduler.stop();
+  t.end();
+});
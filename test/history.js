@@ -0,0 +1,133 @@
+const tape = require('tape');
+const pull = require('pull-stream');
+const os = require('os');
+const fs = require('fs');
+const path = require('path');
+const mock = require('./mock');
+const {ConnHistory} = require('../lib/history');
+const {JsonFile} = require('../lib/json-file');
+const {defaultEnvironment} = require('../lib/environment');
+
+const TEST_ADDR =
+  'net:localhost:9752~shs:pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+
+tape('history() records connecting, connected and disconnections', t => {
+  const ssb = mock();
+
+  ssb.conn.connect(TEST_ADDR, (err, result) => {
+    t.error(err, 'no error');
+    t.ok(result, 'connect was succesful');
+
+    ssb.conn.disconnect(TEST_ADDR, err2 => {
+      t.error(err2, 'no error');
+      const history = ssb.conn.history(TEST_ADDR);
+      t.deepEquals(
+        history.map(ev => [ev.type, ev.initiator]),
+        [
+          ['connecting', 'local'],
+          ['connected', 'local'],
+          ['disconnecting', 'local'],
+          ['disconnected', 'local'],
+        ],
+        'events in order',
+      );
+      t.true(history.every(ev => typeof ev.timestamp === 'number'), 'times');
+
+      const limited = ssb.conn.history(TEST_ADDR, {limit: 1});
+      t.deepEquals(limited.map(ev => ev.type), ['disconnected'], 'limit');
+      const typed = ssb.conn.history(TEST_ADDR, {types: ['connected']});
+      t.deepEquals(typed.map(ev => ev.type), ['connected'], 'types');
+      t.end();
+    });
+  });
+});
+
+tape('history() records failed connection attempts with the error', t => {
+  const ssb = mock({conn: {history: {maxEvents: 1}}});
+  ssb.connect = (_address, cb) => {
+    setTimeout(() => cb(new Error('no route to host')), 10);
+  };
+
+  ssb.conn.connect(TEST_ADDR, err => {
+    t.ok(err, 'connect failed');
+    const history = ssb.conn.history(TEST_ADDR);
+    t.equals(history.length, 1, 'only the latest event is kept');
+    t.equals(history[0].type, 'failed', 'the event is a failure');
+    t.equals(history[0].initiator, 'local', 'we initiated it');
+    t.equals(history[0].error, 'no route to host', 'with the error');
+    t.end();
+  });
+});
+
+tape('ConnHistory loads from disk and prunes old events', t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'connhistory-'));
+  const filePath = path.join(dir, 'conn-history.json');
+  const file = new JsonFile(filePath);
+  const now = Date.now();
+  file.write({
+    [TEST_ADDR]: [
+      {type: 'connecting', timestamp: now - 10e3, initiator: 'local'},
+      {type: 'connected', timestamp: now - 5e3, initiator: 'local'},
+    ],
+  });
+  file.flush();
+
+  const fakeHub = {listen: () => pull.empty()};
+  const history = new ConnHistory(fakeHub, file, defaultEnvironment, {
+    maxAge: 7e3,
+  });
+  t.deepEquals(
+    history.get(TEST_ADDR).map(ev => ev.type),
+    ['connected'],
+    'old event was pruned',
+  );
+  history.close();
+
+  const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  t.equals(saved[TEST_ADDR].length, 1, 'pruned history was persisted');
+  t.end();
+});
+
+tape('ConnHistory handles a limit and maxEvents of 0', t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'connhistory-'));
+  const file = new JsonFile(path.join(dir, 'conn-history.json'));
+  const now = Date.now();
+  file.write({
+    [TEST_ADDR]: [
+      {type: 'connecting', timestamp: now - 10e3, initiator: 'local'},
+      {type: 'connected', timestamp: now - 5e3, initiator: 'local'},
+    ],
+  });
+  file.flush();
+
+  const fakeHub = {listen: () => pull.empty()};
+  const history = new ConnHistory(fakeHub, file, defaultEnvironment);
+  t.deepEquals(history.get(TEST_ADDR, {limit: 0}), [], 'limit 0');
+  t.equals(history.get(TEST_ADDR, {limit: 1}).length, 1, 'limit 1');
+  history.close();
+
+  const empty = new ConnHistory(fakeHub, file, defaultEnvironment, {
+    maxEvents: 0,
+  });
+  t.deepEquals(empty.get(TEST_ADDR), [], 'maxEvents 0 keeps nothing');
+  empty.close();
+  t.end();
+});
+
+tape('JsonFile.flush() is not undone by a slower write', t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'connhistory-'));
+  const filePath = path.join(dir, 'conn-history.json');
+  const file = new JsonFile(filePath, 0);
+  file.write({version: 1});
+  // Runs right after the debounced write started writing version 1
+  setTimeout(() => {
+    file.write({version: 2});
+    file.flush();
+    setTimeout(() => {
+      const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      t.equals(saved.version, 2, 'newest data kept');
+      t.deepEquals(fs.readdirSync(dir), ['conn-history.json'], 'no tmp file');
+      t.end();
+    }, 100);
+  }, 0);
+});
@@ -0,0 +1,143 @@
+const tape = require('tape');
+const pull = require('pull-stream');
+const ping = require('pull-ping');
+const mock = require('./mock');
+const createSimulation = require('./sim');
+const {
+  LatencyTracker,
+  createPinger,
+  loadLatencyLimits,
+} = require('../lib/latency');
+const {defaultEnvironment} = require('../lib/environment');
+
+const KEY = 'pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+const TEST_ADDR = `net:localhost:9752~shs:${KEY}`;
+
+tape('LatencyTracker keeps a rolling window of percentiles', t => {
+  const ssb = mock();
+  ssb.conn.remember(TEST_ADDR);
+  ssb.conn.connect(TEST_ADDR, err => {
+    t.error(err, 'connected');
+    const tracker = new LatencyTracker(
+      ssb.conn.db(),
+      ssb.conn.hub(),
+      defaultEnvironment,
+      {window: 100},
+    );
+    for (let i = 1; i <= 200; i++) tracker.record(TEST_ADDR, i, -i / 10);
+
+    const latency = tracker.get(TEST_ADDR);
+    t.equals(latency.samples, 100, 'window is bounded');
+    t.deepEquals(latency.rtt, {p50: 150, p95: 195, p99: 199}, 'rtt');
+    t.deepEquals(latency.skew, {p50: 15, p95: 19.5, p99: 19.9}, 'abs skew');
+    const hubData = Array.from(ssb.conn.hub().entries())[0][1];
+    t.deepEquals(hubData.latency.rtt, latency.rtt, 'in hub data');
+    const dbData = ssb.conn.db().get(TEST_ADDR);
+    t.deepEquals(dbData.latency.rtt, latency.rtt, 'in ConnDB');
+    t.equals(dbData.ping.rtt.count, 200, 'cumulative ping stats in ConnDB');
+    t.end();
+  });
+});
+
+tape('LatencyTracker drops windows that are old or forgotten', t => {
+  const ssb = mock();
+  let now = 1e12;
+  const env = {...defaultEnvironment, now: () => now};
+  const tracker = new LatencyTracker(ssb.conn.db(), ssb.conn.hub(), env, {
+    maxAge: 60e3,
+  });
+  ssb.conn.remember(TEST_ADDR);
+  tracker.record(TEST_ADDR, 100, 0);
+  now += 30e3;
+  t.equals(tracker.get(TEST_ADDR).updated, 1e12, 'time of the latest sample');
+
+  now += 31e3;
+  t.equals(tracker.get(TEST_ADDR), undefined, 'too old');
+  tracker.record(TEST_ADDR, 100, 0);
+  t.equals(tracker.get(TEST_ADDR).samples, 1, 'started over');
+
+  ssb.conn.forget(TEST_ADDR);
+  t.equals(tracker.get(TEST_ADDR), undefined, 'forgotten');
+  tracker.close();
+  t.end();
+});
+
+tape('createPinger() samples RTT against pull-ping', t => {
+  const samples = [];
+  const pinger = createPinger(defaultEnvironment, 10e3, (rtt, skew) => {
+    samples.push([rtt, skew]);
+    t.equals(samples.length, 1, 'one sample');
+    t.true(rtt >= 0, 'rtt is non-negative');
+    t.equals(typeof skew, 'number', 'skew is a number');
+    pinger.source(true, () => {});
+    t.end();
+  });
+  const remote = ping({timeout: 10e3});
+  pull(pinger, remote, pinger);
+});
+
+tape('loadLatencyLimits() validates the config', t => {
+  t.equals(loadLatencyLimits({}), null, 'not configured');
+  t.deepEquals(
+    loadLatencyLimits({conn: {scheduler: {latency: {maxRtt: 500}}}}),
+    {maxRtt: 500, minSamples: 5},
+    'default minSamples',
+  );
+  try {
+    loadLatencyLimits({conn: {scheduler: {latency: {maxSkew: 'big'}}}});
+    t.fail('should have thrown');
+  } catch (err) {
+    t.true(err.message.includes('maxSkew should be'), 'throws');
+  }
+  t.end();
+});
+
+tape('the scheduler rotates out connections with high latency', async t => {
+  const sim = createSimulation({
+    seed: 19,
+    peers: [{address: TEST_ADDR}],
+    config: {
+      conn: {
+        scheduler: {
+          latency: {maxRtt: 1000, minSamples: 3},
+          rules: [
+            {
+              name: 'all',
+              match: {},
+              quota: 1,
+              backoffStep: 1e3,
+              backoffMax: 60e3,
+              groupMin: 0,
+            },
+          ],
+        },
+      },
+    },
+  });
+  const decisions = [];
+  pull(
+    sim.ssb.connScheduler.decisions(),
+    pull.drain(d => decisions.push(d)),
+  );
+  sim.ssb.conn.remember(TEST_ADDR, {source: 'manual'});
+  await sim.start();
+  await sim.advance(3e3);
+  t.equals(sim.ssb.conn.hub().getState(TEST_ADDR), 'connected', 'connected');
+
+  const tracker = new LatencyTracker(
+    sim.ssb.conn.db(),
+    sim.ssb.conn.hub(),
+    defaultEnvironment,
+  );
+  for (let i = 0; i < 3; i++) tracker.record(TEST_ADDR, 2000, 0);
+  await sim.advance(3e3);
+
+  t.deepEquals(
+    decisions.map(d => [d.action, d.reason]),
+    [['connect', 'below-quota'], ['disconnect', 'high-latency']],
+    'disconnected because of high latency',
+  );
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
@@ -0,0 +1,100 @@
+const tape = require('tape');
+const pull = require('pull-stream');
+const http = require('http');
+const mock = require('./mock');
+const {toOpenMetrics} = require('../lib/metrics');
+
+const TEST_ADDR =
+  'net:localhost:9752~shs:pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+
+tape('stats() counts connections and attempts', t => {
+  const ssb = mock();
+  ssb.conn.stage('net:lan.local:8008~noauth', {type: 'lan'});
+
+  ssb.conn.connect(TEST_ADDR, {source: 'manual'}, (err, result) => {
+    t.error(err, 'no error');
+    t.ok(result, 'connect was succesful');
+
+    const stats = ssb.conn.stats();
+    t.equals(stats.peers.total, 1, 'one peer');
+    t.deepEquals(stats.peers.byState, {connected: 1}, 'by state');
+    t.deepEquals(stats.peers.bySource, {manual: 1}, 'by source');
+    t.deepEquals(stats.staged.byType, {lan: 1}, 'staged by type');
+    t.equals(stats.attempts.total, 1, 'one attempt');
+    t.equals(stats.attempts.succeeded, 1, 'one success');
+    t.equals(stats.attempts.successRate, 1, 'success rate');
+    t.equals(stats.attempts.perMinute, 1, 'attempts per minute');
+    t.equals(stats.rtt.mean, null, 'no RTT known');
+    t.end();
+  });
+});
+
+tape('liveStats() emits the current stats and then updates', t => {
+  const ssb = mock();
+  const emitted = [];
+  pull(
+    ssb.conn.liveStats(),
+    pull.take(2),
+    pull.drain(
+      stats => emitted.push(stats),
+      () => {
+        t.equals(emitted[0].staged.total, 0, 'initially nothing staged');
+        t.equals(emitted[1].staged.total, 1, 'then one staged');
+        t.end();
+      },
+    ),
+  );
+  ssb.conn.stage('net:lan.local:8008~noauth', {type: 'lan'});
+});
+
+tape('liveStats() emits once for a burst of changes', t => {
+  const ssb = mock();
+  const emitted = [];
+  const drain = pull.drain(stats => emitted.push(stats));
+  pull(ssb.conn.liveStats(), drain);
+  for (let i = 1; i <= 3; i++) {
+    ssb.conn.stage(`net:lan${i}.local:8008~noauth`, {type: 'lan'});
+  }
+  setTimeout(() => {
+    t.deepEquals(emitted.map(stats => stats.staged.total), [0, 3], 'batched');
+    drain.abort();
+    t.end();
+  }, 300);
+});
+
+tape('toOpenMetrics() renders the OpenMetrics text format', t => {
+  const ssb = mock();
+  ssb.conn.metrics().recordTick(12);
+  const text = toOpenMetrics(ssb.conn.stats());
+  t.true(text.includes('# TYPE ssb_conn_peers gauge'), 'gauge type');
+  t.true(text.includes('ssb_conn_connection_attempts_total 0'), 'counter');
+  t.true(text.includes('ssb_conn_scheduler_ticks_total 1'), 'ticks');
+  t.true(
+    text.includes('ssb_conn_scheduler_tick_duration_milliseconds{stat="max"} 12'),
+    'tick duration',
+  );
+  t.true(text.endsWith('# EOF\n'), 'ends with EOF');
+  t.equals(ssb.conn.openMetrics(), toOpenMetrics(ssb.conn.stats()), 'muxrpc');
+  t.end();
+});
+
+tape('metrics are served over HTTP when configured', t => {
+  const port = 30000 + Math.floor(Math.random() * 10000);
+  mock({conn: {metrics: {port}}});
+
+  setTimeout(() => {
+    http.get(`http://127.0.0.1:${port}/metrics`, res => {
+      t.equals(res.statusCode, 200, 'status 200');
+      t.true(
+        res.headers['content-type'].startsWith('application/openmetrics-text'),
+        'content type',
+      );
+      let body = '';
+      res.on('data', chunk => (body += chunk));
+      res.on('end', () => {
+        t.true(body.includes('ssb_conn_db_peers 0'), 'body has metrics');
+        t.end();
+      });
+    });
+  }, 100);
+});
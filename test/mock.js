@@ -6,7 +6,7 @@ const fs = require('fs');
 const path = require('path');
 const Caps = require('ssb-caps');
 
-module.exports = function mock() {
+module.exports = function mock(config = {}) {
   const testPath = fs.mkdtempSync(path.join(os.tmpdir(), 'conntest-'));
 
   const mockSSB = {
@@ -24,6 +24,7 @@ module.exports = function mock() {
   const mockConfig = {
     path: testPath,
     caps: Caps,
+    ...config,
   };
 
   mockSSB.conn = new CONN(mockSSB, mockConfig);
@@ -0,0 +1,108 @@
+const tape = require('tape');
+const pull = require('pull-stream');
+const mock = require('./mock');
+const createSimulation = require('./sim');
+
+const KEY_A = 'pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+const KEY_B = Buffer.alloc(32, 1).toString('base64');
+const ADDR_A = `net:localhost:9001~shs:${KEY_A}`;
+const ADDR_B = `net:localhost:9002~shs:${KEY_B}`;
+
+const minute = 60e3;
+
+tape('conn.pin() and conn.unpin() are stored in ConnDB and ConnHub', t => {
+  const ssb = mock();
+  ssb.conn.remember(ADDR_A, {source: 'manual'});
+  ssb.conn.pin(ADDR_A);
+  t.equals(ssb.conn.db().get(ADDR_A).pinned, true, 'pinned in ConnDB');
+  t.equals(ssb.conn.db().get(ADDR_A).source, 'manual', 'keeps other data');
+
+  ssb.conn.connect(ADDR_A, ssb.conn.db().get(ADDR_A), err => {
+    t.error(err, 'connected');
+    pull(
+      ssb.conn.peers(),
+      pull.take(1),
+      pull.drain(entries => {
+        t.equals(entries[0][1].pinned, true, 'peers() shows the flag');
+        t.true(ssb.conn.unpin(ADDR_A), 'unpinned');
+        t.equals(ssb.conn.db().get(ADDR_A).pinned, false, 'not in ConnDB');
+        const hubData = ssb.conn.hub().entries().next().value[1];
+        t.equals(hubData.pinned, false, 'not in ConnHub');
+        t.false(ssb.conn.unpin(ADDR_B), 'unknown address');
+        t.end();
+      }),
+    );
+  });
+});
+
+tape('the scheduler keeps pinned peers outside of rule quotas', async t => {
+  const sim = createSimulation({
+    seed: 29,
+    peers: [{address: ADDR_A}, {address: ADDR_B}],
+    config: {
+      conn: {
+        rotation: {maxLifetime: {default: minute}},
+        scheduler: {
+          rules: [
+            {
+              name: 'all',
+              match: {},
+              quota: 1,
+              backoffStep: 1e3,
+              backoffMax: 60e3,
+              groupMin: 0,
+            },
+          ],
+        },
+      },
+    },
+  });
+  const decisions = [];
+  pull(
+    sim.ssb.connScheduler.decisions(),
+    pull.drain(d => decisions.push(d)),
+  );
+  sim.ssb.conn.remember(ADDR_A, {source: 'manual', autoconnect: false});
+  sim.ssb.conn.pin(ADDR_A);
+  sim.ssb.conn.remember(ADDR_B, {source: 'manual'});
+  await sim.start();
+  await sim.advance(3 * minute);
+
+  const hub = sim.ssb.conn.hub();
+  t.equals(hub.getState(ADDR_A), 'connected', 'pinned peer is connected');
+  t.equals(hub.getState(ADDR_B), 'connected', 'the quota was still free');
+  t.true(
+    decisions.some(d => d.address === ADDR_A && d.rule === 'pinned'),
+    'connected by the pinned rule',
+  );
+  t.false(
+    decisions.some(d => d.address === ADDR_A && d.action === 'disconnect'),
+    'pinned peer was never dropped, although unpinged and old',
+  );
+  t.true(
+    decisions.some(d => d.address === ADDR_B && d.action === 'disconnect'),
+    'other peers were dropped',
+  );
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
+
+tape('the scheduler retries failing pinned peers soon', async t => {
+  const sim = createSimulation({
+    seed: 31,
+    peers: [{address: ADDR_A, blocked: true}],
+    config: {conn: {scheduler: {rules: []}}},
+  });
+  sim.ssb.conn.remember(ADDR_A, {source: 'manual'});
+  sim.ssb.conn.pin(ADDR_A);
+  await sim.start();
+  await sim.advance(10 * minute);
+
+  const attempts = sim.attemptsTo(ADDR_A).length;
+  t.true(attempts >= 10, `retried ${attempts} times in 10 minutes`);
+  t.true(attempts <= 20, 'with a backoff');
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
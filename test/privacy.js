@@ -0,0 +1,83 @@
+const tape = require('tape');
+const mock = require('./mock');
+const createSimulation = require('./sim');
+
+const KEY = 'pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+const ID = `@${KEY}.ed25519`;
+const NET_ADDR = `net:example.com:8008~shs:${KEY}`;
+const ONION_ADDR = `onion:abcdefghijklmnop.onion:8008~shs:${KEY}`;
+
+tape('tor-only mode refuses non-onion addresses', t => {
+  const ssb = mock({conn: {privacy: 'tor-only'}});
+  t.equals(ssb.conn.privacy(), 'tor-only', 'privacy()');
+  t.equals(ssb.conn.stats().privacy, 'tor-only', 'stats() reports the mode');
+  t.true(
+    ssb.conn.openMetrics().includes('ssb_conn_privacy_mode{mode="tor-only"} 1'),
+    'openMetrics() reports the mode',
+  );
+  t.false(ssb.conn.stage(NET_ADDR), 'stage() refused net');
+  t.true(ssb.conn.stage(ONION_ADDR), 'stage() accepted onion');
+  t.false(
+    ssb.conn.stage(`onion:abcdefghijklmnop.onion:8008;${NET_ADDR}`),
+    'stage() refused onion combined with net',
+  );
+
+  ssb.conn.connect(NET_ADDR, err => {
+    t.ok(err, 'connect() to net failed');
+    t.true(err.message.includes('tor-only'), 'with a descriptive error');
+
+    ssb.gossip.connect(NET_ADDR, err2 => {
+      t.ok(err2, 'gossip.connect() to net failed');
+      t.true(err2.message.includes('tor-only'), 'with a descriptive error');
+      t.false(ssb.conn.db().has(NET_ADDR), 'net was not added to the db');
+
+      ssb.conn.connect(ONION_ADDR, (err3, result) => {
+        t.error(err3, 'connect() to onion succeeded');
+        t.ok(result, 'with a result');
+        t.end();
+      });
+    });
+  });
+});
+
+tape('invalid config.conn.privacy throws', t => {
+  try {
+    mock({conn: {privacy: 'paranoid'}});
+    t.fail('should have thrown');
+  } catch (err) {
+    t.true(err.message.includes('config.conn.privacy'), 'throws');
+  }
+  t.end();
+});
+
+tape('the scheduler only connects to onion addresses', async t => {
+  let lanStarted = false;
+  const sim = createSimulation({
+    seed: 13,
+    peers: [{address: NET_ADDR}, {address: ONION_ADDR}],
+    config: {
+      conn: {
+        privacy: 'tor-only',
+        // Ignored, because tor-only mode always means onion-only
+        transports: ['net', 'onion'],
+      },
+    },
+  });
+  sim.ssb.lan = {
+    start: () => (lanStarted = true),
+    discoveredPeers: () => () => {},
+  };
+  sim.ssb.conn.remember(NET_ADDR, {key: ID, source: 'manual'});
+  sim.ssb.conn.remember(ONION_ADDR, {key: ID, source: 'manual'});
+  await sim.start();
+  await sim.advance(20e3);
+
+  t.false(lanStarted, 'LAN discovery was not started');
+  t.true(sim.attemptsTo(ONION_ADDR).length > 0, 'connected via onion');
+  t.equals(sim.attemptsTo(NET_ADDR).length, 0, 'never via net');
+  const explanation = sim.ssb.connScheduler.explain();
+  t.equals(explanation.privacy, 'tor-only', 'explain() reports the mode');
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
@@ -0,0 +1,122 @@
+const tape = require('tape');
+const net = require('net');
+const mock = require('./mock');
+const createSimulation = require('./sim');
+const {tcpProbe} = require('../lib/probe');
+
+const KEY = 'pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+const ONION_ADDR = `onion:abcdefghijklmnop.onion:8008~shs:${KEY}`;
+
+tape('tcpProbe() checks if a net address accepts TCP connections', t => {
+  const server = net.createServer(socket => socket.destroy());
+  server.listen(0, '127.0.0.1', async () => {
+    const port = server.address().port;
+    const open = await tcpProbe(`net:127.0.0.1:${port}~shs:${KEY}`, 1000);
+    t.equals(open, true, 'listening port is reachable');
+    server.close(async () => {
+      const closed = await tcpProbe(`net:127.0.0.1:${port}~shs:${KEY}`, 1000);
+      t.equals(closed, false, 'closed port is unreachable');
+      t.equals(await tcpProbe(ONION_ADDR, 1000), null, 'onion is not probed');
+      t.end();
+    });
+  });
+});
+
+tape('tcpProbe() supports IPv6 hosts', t => {
+  const server = net.createServer(socket => socket.destroy());
+  server.listen(0, '::1', async () => {
+    const port = server.address().port;
+    t.true(await tcpProbe(`net:::1:${port}~shs:${KEY}`, 1000), 'bare');
+    t.true(await tcpProbe(`net:[::1]:${port}~shs:${KEY}`, 1000), 'brackets');
+    server.close(() => t.end());
+  });
+});
+
+tape('conn.probe() stores the result in ConnDB', t => {
+  const server = net.createServer(socket => socket.destroy());
+  server.listen(0, '127.0.0.1', () => {
+    const address = `net:127.0.0.1:${server.address().port}~shs:${KEY}`;
+    const ssb = mock({conn: {probe: {interval: 0}}});
+    ssb.conn.remember(address, {source: 'manual'});
+
+    ssb.conn.probe(address, (err, result) => {
+      t.error(err, 'no error');
+      t.true(result.reachable, 'reachable');
+      t.equals(typeof result.latency, 'number', 'with latency');
+      const data = ssb.conn.db().get(address);
+      t.deepEquals(data.probe, result, 'probe stored in ConnDB');
+      t.equals(data.lastReachable, result.timestamp, 'lastReachable stored');
+
+      ssb.conn.probe(ONION_ADDR, (err2, result2) => {
+        t.error(err2, 'no error');
+        t.equals(result2, null, 'onion cannot be probed');
+        server.close(() => t.end());
+      });
+    });
+  });
+});
+
+tape('tor-only mode never probes net addresses', t => {
+  let probed = false;
+  const probe = () => {
+    probed = true;
+    return Promise.resolve(true);
+  };
+  const ssb = mock({conn: {privacy: 'tor-only', probe: {interval: 0, probe}}});
+  ssb.conn.probe(`net:127.0.0.1:8008~shs:${KEY}`, (err, result) => {
+    t.error(err, 'no error');
+    t.equals(result, null, 'no result');
+    t.false(probed, 'did not probe');
+    t.end();
+  });
+});
+
+tape('the scheduler backs off from probed unreachable peers', async t => {
+  const NET_ADDR = `net:example.com:8008~shs:${KEY}`;
+  let reachable = false;
+  const sim = createSimulation({
+    seed: 17,
+    peers: [{address: NET_ADDR}],
+    config: {
+      conn: {
+        probe: {interval: 10e3, probe: () => Promise.resolve(reachable)},
+        scheduler: {
+          rules: [
+            {
+              name: 'all',
+              match: {},
+              quota: 1,
+              backoffStep: 1e3,
+              backoffMax: 60e3,
+              groupMin: 0,
+            },
+          ],
+        },
+      },
+    },
+  });
+  sim.ssb.conn.remember(NET_ADDR, {source: 'manual', autoconnect: false});
+  await sim.ssb.conn.prober().probe(NET_ADDR);
+  t.false(sim.ssb.conn.prober().isUnreachable(NET_ADDR), 'one failure is ok');
+  await sim.ssb.conn.prober().probe(NET_ADDR);
+  t.true(sim.ssb.conn.prober().isUnreachable(NET_ADDR), 'two are not');
+  await sim.start();
+  await sim.advance(5e3);
+
+  t.equals(sim.attemptsTo(NET_ADDR).length, 0, 'no attempts');
+  t.notOk(sim.ssb.conn.staging().get(NET_ADDR), 'not staged');
+  const explanation = sim.ssb.connScheduler.explain(NET_ADDR);
+  t.equals(
+    explanation.candidates[0].excludedBy,
+    'unreachable',
+    'excluded as unreachable',
+  );
+
+  reachable = true;
+  await sim.advance(15e3);
+  t.ok(sim.ssb.conn.db().get(NET_ADDR).lastReachable, 'probed reachable');
+  t.ok(sim.ssb.conn.staging().get(NET_ADDR), 're-staged');
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
@@ -0,0 +1,110 @@
+const tape = require('tape');
+const createSimulation = require('./sim');
+const {PubRanking} = require('../lib/pubs');
+
+const FRIEND = '@4QdlOF3ewTu9cxmrgTkYnxqomM2DPKaGfm/p9C3VJh0=.ed25519';
+
+function pubAddress(i) {
+  const key = Buffer.alloc(32, i).toString('base64');
+  return `net:pub${i}.example.com:8008~shs:${key}`;
+}
+
+const now = 1e12;
+const reachable = {reachable: true, timestamp: now, latency: 100};
+const unreachable = {reachable: false, timestamp: now};
+
+tape('PubRanking ranks pubs by reachability, RTT and announcer', t => {
+  const ranking = new PubRanking();
+  const hops = {[FRIEND]: 1};
+  const fast = [pubAddress(1), {probe: reachable}];
+  const slow = [pubAddress(2), {probe: {...reachable, latency: 3000}}];
+  const unknown = [pubAddress(3), {}];
+  const down = [pubAddress(4), {probe: unreachable, probeFailures: 1}];
+  const friendly = [pubAddress(5), {probe: reachable, announcer: FRIEND}];
+  const dead = [pubAddress(6), {probe: unreachable, probeFailures: 5}];
+
+  const ranked = ranking.rank(
+    [dead, down, unknown, slow, fast, friendly],
+    key => hops[key],
+  );
+  t.deepEquals(
+    ranked.map(([addr]) => addr),
+    [friendly, fast, slow, unknown, down].map(([addr]) => addr),
+    'best first, without the dead pub',
+  );
+
+  t.true(ranking.isDead(dead), 'never responded');
+  const revived = [dead[0], {...dead[1], lastReachable: now - 1e3}];
+  t.false(ranking.isDead(revived), 'was reachable once');
+
+  try {
+    new PubRanking({maxStaged: -1});
+    t.fail('should have thrown');
+  } catch (err) {
+    t.true(err.message.includes('Invalid config.conn.pubs'), 'throws');
+    t.true(err.message.includes('maxStaged'), 'mentions the field');
+  }
+  t.end();
+});
+
+tape('the scheduler stages the best discovered pubs', async t => {
+  const sim = createSimulation({
+    seed: 43,
+    config: {conn: {probe: {interval: 0}, scheduler: {rules: []}}},
+  });
+  const pub = data => ({type: 'pub', autoconnect: false, ...data});
+  sim.ssb.conn.remember(pubAddress(1), pub({probe: unreachable}));
+  sim.ssb.conn.remember(pubAddress(2), pub({}));
+  sim.ssb.conn.remember(pubAddress(3), pub({probe: reachable}));
+  sim.ssb.conn.remember(pubAddress(4), pub({probeFailures: 2}));
+  sim.ssb.conn.remember(pubAddress(5), pub({ping: {rtt: {mean: 50}}}));
+  sim.ssb.conn.remember(pubAddress(6), pub({type: 'room'}));
+  await sim.start();
+  await sim.advance(3e3);
+
+  const staged = Array.from(sim.ssb.conn.staging().entries())
+    .map(([addr]) => addr)
+    .sort();
+  t.deepEquals(
+    staged,
+    [pubAddress(2), pubAddress(3), pubAddress(5), pubAddress(6)],
+    'the best three pubs, and other peers with autoconnect=false',
+  );
+
+  sim.ssb.conn.db().update(pubAddress(4), {probe: reachable, probeFailures: 0});
+  sim.ssb.conn.db().update(pubAddress(2), {probe: unreachable});
+  await sim.advance(3e3);
+  t.ok(sim.ssb.conn.staging().get(pubAddress(4)), 'newly reachable staged');
+  t.notOk(sim.ssb.conn.staging().get(pubAddress(2)), 'outranked unstaged');
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
+
+tape('the scheduler forgets pubs that never responded', async t => {
+  const sim = createSimulation({
+    seed: 47,
+    config: {
+      conn: {
+        pubs: {maxProbeFailures: 2},
+        probe: {interval: 10e3, probe: () => Promise.resolve(false)},
+        scheduler: {rules: []},
+      },
+    },
+  });
+  const pub = {type: 'pub', autoconnect: false};
+  sim.ssb.conn.remember(pubAddress(1), pub);
+  sim.ssb.conn.remember(pubAddress(2), {...pub, lastReachable: now - 1e3});
+  await sim.start();
+
+  await sim.advance(12e3);
+  t.equals(sim.ssb.conn.db().get(pubAddress(1)).probeFailures, 1, 'failed');
+  t.true(sim.ssb.conn.db().has(pubAddress(1)), 'not forgotten yet');
+
+  await sim.advance(12e3);
+  t.false(sim.ssb.conn.db().has(pubAddress(1)), 'forgotten');
+  t.true(sim.ssb.conn.db().has(pubAddress(2)), 'kept, it responded once');
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
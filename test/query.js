@@ -0,0 +1,118 @@
+const tape = require('tape');
+const mock = require('./mock');
+const createSimulation = require('./sim');
+
+const KEY = 'pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+const ID = `@${KEY}.ed25519`;
+const NET_ADDR = `net:localhost:9001~shs:${KEY}`;
+const ONION_ADDR = `onion:abcdefghijklmnop.onion:8008~shs:${KEY}`;
+const OTHER_ADDR =
+  'net:localhost:9002~shs:4QdlOF3ewTu9cxmrgTkYnxqomM2DPKaGfm/p9C3VJh0=';
+
+function stats(values) {
+  const sum = values.reduce((a, b) => a + b, 0);
+  const sqsum = values.reduce((a, b) => a + b * b, 0);
+  const mean = sum / values.length;
+  const stdev = Math.sqrt(sqsum / values.length - mean * mean);
+  return {mean, stdev, count: values.length, sum, sqsum};
+}
+
+tape('peersByKey() merges the addresses of the same feed', t => {
+  const ssb = mock();
+  ssb.conn.remember(NET_ADDR, {
+    key: ID,
+    failure: 1,
+    stateChange: 1000,
+    birth: 500,
+    duration: stats([10, 20]),
+  });
+  ssb.conn.remember(ONION_ADDR, {
+    key: ID,
+    failure: 2,
+    stateChange: 3000,
+    birth: 200,
+    duration: stats([30]),
+  });
+  ssb.conn.remember(OTHER_ADDR, {
+    key: '@4QdlOF3ewTu9cxmrgTkYnxqomM2DPKaGfm/p9C3VJh0=.ed25519',
+  });
+
+  const byKey = ssb.conn.query().peersByKey();
+  t.equals(byKey.length, 2, 'two feeds');
+  const [key, data] = byKey.find(([k]) => k === ID);
+  t.equals(key, ID, 'keyed by feed ID');
+  t.deepEquals(
+    data.addresses.slice().sort(),
+    [NET_ADDR, ONION_ADDR].sort(),
+    'both addresses',
+  );
+  t.equals(data.failure, 3, 'failures are summed');
+  t.equals(data.stateChange, 3000, 'latest state change');
+  t.equals(data.birth, 200, 'earliest birth');
+  t.equals(data.duration.count, 3, 'durations are combined');
+  t.equals(data.duration.mean, 20, 'combined mean');
+  t.end();
+});
+
+tape('connect() refuses a second address of a connected feed', t => {
+  const ssb = mock();
+  ssb.conn.connect(NET_ADDR, (err, result) => {
+    t.error(err, 'no error');
+    t.ok(result, 'connected via net');
+    ssb.conn.connect(ONION_ADDR, (err2, result2) => {
+      t.ok(err2, 'did not connect via onion');
+      t.true(err2.message.includes('already connected via'), 'descriptive');
+      t.equals(result2, undefined, 'no result');
+      t.equals(ssb.conn.hub().getState(ONION_ADDR), undefined, 'not in hub');
+      t.end();
+    });
+  });
+});
+
+tape('the scheduler treats a feed as one candidate', async t => {
+  const sim = createSimulation({
+    seed: 9,
+    peers: [
+      {address: NET_ADDR, failureRate: 1},
+      {address: ONION_ADDR, failureRate: 1},
+    ],
+    config: {
+      conn: {
+        scheduler: {
+          rules: [
+            {
+              name: 'all',
+              match: {},
+              quota: 3,
+              backoffStep: 1e3,
+              backoffMax: 60e3,
+              groupMin: 0,
+            },
+          ],
+        },
+      },
+    },
+  });
+  sim.ssb.conn.remember(NET_ADDR, {key: ID, source: 'manual'});
+  sim.ssb.conn.remember(ONION_ADDR, {key: ID, source: 'manual'});
+  await sim.start();
+
+  let maxCandidates = 0;
+  for (let i = 0; i < 40; i++) {
+    await sim.advance(500);
+    const explanation = sim.ssb.connScheduler.explain();
+    if (!explanation) continue;
+    const candidates = explanation.candidates.filter(c => c.key === ID);
+    maxCandidates = Math.max(maxCandidates, candidates.length);
+  }
+  t.equals(maxCandidates, 1, 'one candidate per tick for both addresses');
+
+  const timestamps = sim.attempts.map(a => a.timestamp);
+  t.true(timestamps.length >= 2, 'there were attempts');
+  for (let i = 1; i < timestamps.length; i++) {
+    t.true(timestamps[i] - timestamps[i - 1] >= 100, 'one attempt at a time');
+  }
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
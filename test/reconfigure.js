@@ -0,0 +1,122 @@
+const tape = require('tape');
+const createSimulation = require('./sim');
+
+function address(i) {
+  const key = Buffer.alloc(32, i).toString('base64');
+  return `net:peer${i}.example.com:8008~shs:${key}`;
+}
+
+function feedId(i) {
+  return `@${Buffer.alloc(32, i).toString('base64')}.ed25519`;
+}
+
+function rules(quota) {
+  return [
+    {
+      name: 'everyone',
+      match: {},
+      quota,
+      backoffStep: 1e3,
+      backoffMax: 1e3,
+      groupMin: 0,
+    },
+  ];
+}
+
+function connectedCount(sim) {
+  return sim.ssb.conn.query().peersConnected().length;
+}
+
+tape('reconfigure() applies new quotas and intervals live', async t => {
+  const peers = [1, 2, 3, 4, 5].map(i => ({address: address(i)}));
+  const sim = createSimulation({
+    seed: 89,
+    peers,
+    config: {conn: {probe: {interval: 0}, scheduler: {rules: rules(2)}}},
+  });
+  for (let i = 1; i <= 5; i++) {
+    sim.ssb.conn.remember(address(i), {key: feedId(i), source: 'manual'});
+  }
+  await sim.start();
+  await sim.advance(10e3);
+  t.equals(connectedCount(sim), 2, 'within the first quota');
+
+  const config = sim.ssb.connScheduler.reconfigure({
+    conn: {scheduler: {rules: rules(4), interval: 10e3}},
+  });
+  t.equals(config.conn.scheduler.interval, 10e3, 'returns the new config');
+  t.equals(
+    sim.ssb.conn.config().conn.scheduler.interval,
+    10e3,
+    'conn.config() has the new config',
+  );
+  await sim.advance(10e3);
+  t.equals(connectedCount(sim), 4, 'within the new quota');
+
+  const before = sim.ssb.connScheduler.explain().tick;
+  await sim.advance(60e3);
+  const ticks = sim.ssb.connScheduler.explain().tick - before;
+  t.true(ticks >= 5 && ticks <= 7, 'ticks every 10 seconds');
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
+
+tape('reconfigure() refuses invalid or unsupported options', t => {
+  const sim = createSimulation({seed: 97});
+  t.throws(
+    () => sim.ssb.connScheduler.reconfigure({conn: {scheduler: {rules: 3}}}),
+    /config\.conn\.scheduler\.rules must be an array/,
+    'invalid',
+  );
+  t.throws(
+    () => sim.ssb.connScheduler.reconfigure({conn: {privacy: 'tor-only'}}),
+    /config\.conn\.privacy cannot be changed at runtime/,
+    'needs a restart',
+  );
+  const config = sim.ssb.connScheduler.reconfigure({gossip: {pub: false}});
+  t.equals(config.conn.scheduler.interval, 2e3, 'nothing else changed');
+  t.false(sim.ssb.connScheduler.enabled().pub, 'toggles applied');
+  t.end();
+});
+
+tape('stop() and start() are idempotent and tear everything down', async t => {
+  const sim = createSimulation({
+    seed: 101,
+    peers: [{address: address(6)}, {address: address(7)}],
+    config: {conn: {probe: {interval: 0}}},
+  });
+  sim.ssb.conn.remember(address(6), {key: feedId(6), source: 'manual'});
+  await sim.start();
+  sim.ssb.connScheduler.start();
+  await sim.advance(3e3);
+  t.equals(sim.attemptsTo(address(6)).length, 1, 'connected once');
+
+  sim.ssb.connScheduler.stop();
+  sim.ssb.connScheduler.stop();
+  sim.ssb.conn.connect(address(7), {key: feedId(7)});
+  await sim.advance(1e3);
+  sim.wakeup();
+  sim.changeNetwork();
+  await sim.advance(1e3);
+  t.equals(
+    sim.ssb.conn.hub().getState(address(7)),
+    'connected',
+    'no more wakeup nor network listeners',
+  );
+  const tick = sim.ssb.connScheduler.explain().tick;
+  await sim.advance(60e3);
+  t.equals(sim.ssb.connScheduler.explain().tick, tick, 'no more ticks');
+  t.equals(sim.attemptsTo(address(6)).length, 1, 'no more attempts');
+
+  sim.ssb.connScheduler.start();
+  await sim.advance(10e3);
+  const explanation = sim.ssb.connScheduler.explain();
+  t.true(explanation.tick > tick, 'ticks again after restart');
+  t.deepEquals(
+    explanation.candidates.map(c => c.address),
+    [address(6)],
+    'considers peers again after restart',
+  );
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
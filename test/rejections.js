@@ -0,0 +1,104 @@
+const tape = require('tape');
+const mock = require('./mock');
+const createSimulation = require('./sim');
+
+const KEY = 'pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+const FEED_ID = `@${KEY}.ed25519`;
+const LAN_ADDR = `net:192.168.1.20:8008~shs:${KEY}`;
+const BT_ADDR = `bt:112233445566~shs:${KEY}`;
+const OTHER_ADDR =
+  'net:192.168.1.21:8008~shs:4QdlOF3ewTu9cxmrgTkYnxqomM2DPKaGfm/p9C3VJh0=';
+
+tape('reject() unstages the peer and keeps it from being staged', t => {
+  const ssb = mock();
+  t.true(ssb.conn.stage(LAN_ADDR, {type: 'lan', key: FEED_ID}), 'staged');
+  t.true(ssb.conn.stage(BT_ADDR, {type: 'bt', key: FEED_ID}), 'staged');
+  t.true(ssb.conn.stage(OTHER_ADDR, {type: 'lan'}), 'staged other');
+
+  const rejection = ssb.conn.reject(LAN_ADDR);
+  t.equals(rejection.address, LAN_ADDR, 'rejection has the address');
+  t.equals(rejection.key, FEED_ID, 'rejection has the feed ID');
+  t.notOk(rejection.until, 'never expires');
+  t.deepEquals(ssb.conn.rejected(), [rejection], 'rejected() lists it');
+
+  t.notOk(ssb.conn.staging().get(LAN_ADDR), 'unstaged');
+  t.notOk(ssb.conn.staging().get(BT_ADDR), 'same feed unstaged');
+  t.ok(ssb.conn.staging().get(OTHER_ADDR), 'other peer still staged');
+  t.false(ssb.conn.stage(LAN_ADDR, {type: 'lan', key: FEED_ID}), 'refused');
+  t.false(ssb.conn.stage(BT_ADDR, {type: 'bt', key: FEED_ID}), 'refused');
+
+  try {
+    ssb.conn.reject('not an address');
+    t.fail('should have thrown');
+  } catch (err) {
+    t.true(err.message.includes('not an address'), 'throws');
+  }
+  t.end();
+});
+
+tape('reject() can expire', async t => {
+  const sim = createSimulation({seed: 41});
+  const rejection = sim.ssb.conn.reject(LAN_ADDR, {for: 60e3});
+  t.equals(rejection.until, sim.clock.now() + 60e3, 'has an expiry');
+  await sim.advance(30e3);
+  t.false(sim.ssb.conn.stage(LAN_ADDR, {type: 'lan'}), 'refused');
+  await sim.advance(31e3);
+  t.deepEquals(sim.ssb.conn.rejected(), [], 'expired');
+  t.true(sim.ssb.conn.stage(LAN_ADDR, {type: 'lan'}), 'staged again');
+  t.end();
+});
+
+tape('approve() remembers the staged peer and connects to it', t => {
+  const ssb = mock();
+  t.true(ssb.conn.stage(OTHER_ADDR, {note: 'laptop'}), 'staged');
+
+  ssb.conn.approve(OTHER_ADDR, (err, result) => {
+    t.error(err, 'no error');
+    t.ok(result, 'connected');
+    const data = ssb.conn.db().get(OTHER_ADDR);
+    t.equals(data.note, 'laptop', 'staged data is in ConnDB');
+    t.equals(data.autoconnect, true, 'with autoconnect');
+    t.notOk(data.stagingBirth, 'without staging timestamps');
+    t.equals(ssb.conn.hub().getState(OTHER_ADDR), 'connected', 'in hub');
+
+    ssb.conn.approve(LAN_ADDR, err2 => {
+      t.ok(err2, 'cannot approve what is not staged');
+      t.true(err2.message.includes('not staged'), 'error message');
+      t.end();
+    });
+  });
+});
+
+tape('approve() can skip connecting or remembering', t => {
+  const ssb = mock();
+  ssb.conn.stage(LAN_ADDR, {key: FEED_ID});
+  ssb.conn.approve(LAN_ADDR, {autoconnect: false}, (err, result) => {
+    t.error(err, 'no error');
+    t.false(result, 'did not connect');
+    t.equals(ssb.conn.db().get(LAN_ADDR).autoconnect, false, 'remembered');
+    t.equals(ssb.conn.hub().getState(LAN_ADDR), undefined, 'not in hub');
+
+    ssb.conn.stage(OTHER_ADDR);
+    ssb.conn.approve(OTHER_ADDR, {remember: false}, err2 => {
+      t.error(err2, 'no error');
+      t.false(ssb.conn.db().has(OTHER_ADDR), 'not remembered');
+      t.equals(ssb.conn.hub().getState(OTHER_ADDR), 'connected', 'in hub');
+      t.end();
+    });
+  });
+});
+
+tape('approve() lifts the rejections of the feed', t => {
+  const ssb = mock();
+  ssb.conn.stage(LAN_ADDR, {type: 'lan', key: FEED_ID});
+  ssb.conn.reject(BT_ADDR);
+  t.notOk(ssb.conn.staging().get(LAN_ADDR), 'same feed unstaged');
+  ssb.conn.staging().stage(LAN_ADDR, {type: 'lan', key: FEED_ID});
+
+  ssb.conn.approve(LAN_ADDR, {autoconnect: false}, err => {
+    t.error(err, 'no error');
+    t.deepEquals(ssb.conn.rejected(), [], 'no rejections');
+    t.true(ssb.conn.stage(BT_ADDR, {type: 'bt', key: FEED_ID}), 'staged');
+    t.end();
+  });
+});
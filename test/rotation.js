@@ -0,0 +1,146 @@
+const tape = require('tape');
+const pull = require('pull-stream');
+const createSimulation = require('./sim');
+const {RotationPolicy} = require('../lib/rotation');
+
+const KEY_A = 'pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+const KEY_B = Buffer.alloc(32, 1).toString('base64');
+const ADDR_A = `net:localhost:9001~shs:${KEY_A}`;
+const ADDR_B = `net:localhost:9002~shs:${KEY_B}`;
+
+const minute = 60e3;
+const hour = 60 * minute;
+
+tape('RotationPolicy looks up the lifetime by type, then source', t => {
+  const policy = new RotationPolicy({
+    maxLifetime: {pub: 6 * hour, manual: null},
+    stagger: 0,
+  });
+  t.equals(policy.lifetime([ADDR_A, {}]), hour, 'default');
+  t.equals(policy.lifetime([ADDR_A, {type: 'lan'}]), null, 'lan has no limit');
+  t.equals(policy.lifetime([ADDR_A, {type: 'pub'}]), 6 * hour, 'pub type');
+  t.equals(policy.lifetime([ADDR_A, {source: 'manual'}]), null, 'source');
+  t.equals(
+    policy.lifetime([ADDR_A, {type: 'pub', source: 'manual'}]),
+    6 * hour,
+    'type comes before source',
+  );
+  t.end();
+});
+
+tape('RotationPolicy staggers lifetimes per address', t => {
+  const policy = new RotationPolicy({stagger: 0.2});
+  const a = policy.lifetime([ADDR_A, {}]);
+  const b = policy.lifetime([ADDR_B, {}]);
+  t.notEquals(a, b, 'different addresses get different lifetimes');
+  t.equals(policy.lifetime([ADDR_A, {}]), a, 'always the same per address');
+  for (const x of [a, b]) {
+    t.true(x >= 0.8 * hour && x <= 1.2 * hour, 'within the stagger');
+  }
+  t.end();
+});
+
+tape('RotationPolicy checks lifetime, idleness and exemptions', t => {
+  const policy = new RotationPolicy({maxIdle: 10 * minute, stagger: 0});
+  const now = 1e12;
+  const old = [ADDR_A, {stateChange: now - 2 * hour}];
+  const fresh = [ADDR_A, {stateChange: now - 20 * minute}];
+  t.equals(policy.check(old, now, now), 'rotation', 'too old');
+  t.equals(policy.check(fresh, now, now - minute), null, 'active');
+  t.equals(policy.check(fresh, now, now - 15 * minute), 'idle', 'idle');
+  t.equals(policy.check(fresh, now), 'idle', 'idle without activity');
+  const exempt = [ADDR_A, {stateChange: now - 2 * hour, rotate: false}];
+  t.equals(policy.check(exempt, now), null, 'exempt');
+  t.equals(policy.check([ADDR_A, {}], now), null, 'unknown connect time');
+
+  try {
+    new RotationPolicy({maxLifetime: {pub: 'forever'}, stagger: 2});
+    t.fail('should have thrown');
+  } catch (err) {
+    t.true(err.message.includes('maxLifetime.pub'), 'invalid lifetime');
+    t.true(err.message.includes('stagger'), 'invalid stagger');
+  }
+  t.end();
+});
+
+tape('the scheduler rotates connections unless exempt', async t => {
+  const pinged = {rtt: {mean: 10, stdev: 0, count: 1, sum: 10, sqsum: 100}};
+  const sim = createSimulation({
+    seed: 23,
+    peers: [{address: ADDR_A}, {address: ADDR_B}],
+    config: {
+      conn: {
+        rotation: {maxLifetime: {default: minute}},
+        scheduler: {
+          rules: [
+            {
+              name: 'all',
+              match: {},
+              quota: 2,
+              backoffStep: 1e3,
+              backoffMax: 60e3,
+              groupMin: 0,
+            },
+          ],
+        },
+      },
+    },
+  });
+  const decisions = [];
+  pull(
+    sim.ssb.connScheduler.decisions(),
+    pull.drain(d => decisions.push(d)),
+  );
+  sim.ssb.conn.remember(ADDR_A, {source: 'manual', ping: pinged});
+  sim.ssb.conn.remember(ADDR_B, {
+    source: 'manual',
+    ping: pinged,
+    rotate: false,
+  });
+  await sim.start();
+  await sim.advance(2 * minute);
+
+  const disconnects = decisions.filter(d => d.action === 'disconnect');
+  t.true(disconnects.length > 0, 'there were disconnections');
+  t.true(
+    disconnects.every(d => d.address === ADDR_A && d.reason === 'rotation'),
+    'only A was rotated',
+  );
+  const [first] = disconnects;
+  const connect = decisions.find(d => d.address === ADDR_A);
+  const lifetime = first.timestamp - connect.timestamp;
+  t.true(lifetime >= 0.9 * minute, `A was rotated after ${lifetime}ms`);
+  t.equals(sim.ssb.conn.hub().getState(ADDR_B), 'connected', 'B stayed');
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
+
+tape('inbound peers are rotated by their connect time', async t => {
+  const inbound = `net:203.0.113.5:40123~shs:${KEY_B}`;
+  const sim = createSimulation({
+    seed: 113,
+    config: {conn: {rotation: {maxLifetime: {default: minute}, stagger: 0}}},
+  });
+  const decisions = [];
+  pull(
+    sim.ssb.connScheduler.decisions(),
+    pull.drain(d => decisions.push(d)),
+  );
+  await sim.start();
+  await sim.advance(1e3);
+  sim.inbound(inbound);
+  const connectedAt = sim.clock.now();
+  t.equals(sim.ssb.conn.hub().getState(inbound), 'connected', 'connected');
+  t.false(sim.ssb.conn.db().has(inbound), 'not in ConnDB');
+
+  await sim.advance(10e3);
+  t.equals(sim.ssb.conn.hub().getState(inbound), 'connected', 'not rotated');
+
+  await sim.advance(2 * minute);
+  const rotated = decisions.find(d => d.address === inbound);
+  t.equals(rotated && rotated.reason, 'rotation', 'rotated eventually');
+  t.true(rotated.timestamp - connectedAt >= minute, 'after its lifetime');
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
@@ -0,0 +1,86 @@
+const tape = require('tape');
+const {
+  DEFAULT_RULES,
+  validateRules,
+  loadRules,
+  compileRule,
+} = require('../lib/scheduler-rules');
+
+tape('default rules are valid', t => {
+  t.deepEquals(validateRules(DEFAULT_RULES), [], 'no errors');
+  t.deepEquals(loadRules({}), DEFAULT_RULES, 'used when unconfigured');
+  t.end();
+});
+
+tape('configured rules replace the default rules', t => {
+  const rules = [
+    {
+      name: 'friends',
+      match: {hops: {min: 0, max: 1}},
+      quota: 5,
+      backoffStep: 1e3,
+      backoffMax: 60e3,
+      groupMin: 0,
+    },
+  ];
+  const config = {conn: {scheduler: {rules}}};
+  t.deepEquals(loadRules(config), rules, 'configured rules are used');
+  t.end();
+});
+
+tape('invalid rules are rejected with all their errors', t => {
+  const config = {
+    conn: {
+      scheduler: {
+        rules: [
+          {
+            name: 'a',
+            match: {sauce: 'seed', hops: {min: 3, max: 1}},
+            quota: -1,
+            backoffStep: 10e3,
+            backoffMax: 1e3,
+            groupMin: 0,
+          },
+          {name: 'a', match: {}, quota: 1, groupMin: 0},
+        ],
+      },
+    },
+  };
+  try {
+    loadRules(config);
+    t.fail('should have thrown');
+  } catch (err) {
+    const msg = err.message;
+    t.true(msg.includes('Invalid config.conn.scheduler.rules'), 'header');
+    t.true(msg.includes('rules[0] ("a").match.sauce is not supported'), 'sauce');
+    t.true(msg.includes('hops.min must not be greater than max'), 'hops');
+    t.true(msg.includes('rules[0] ("a").quota must be'), 'quota');
+    t.true(msg.includes('backoffMax must not be smaller than'), 'backoff');
+    t.true(msg.includes('rules[1] ("a") has a duplicate name'), 'dup');
+    t.true(msg.includes('rules[1] ("a").backoffStep must be'), 'missing');
+  }
+  t.end();
+});
+
+tape('compiled rules match peers with the predicate vocabulary', t => {
+  const hops = {'@a': 1, '@b': 3};
+  const rule = compileRule(
+    {
+      name: 'x',
+      match: {source: ['pub', 'manual'], hops: {max: 2}, tag: 'home'},
+      quota: 1,
+      backoffStep: 1,
+      backoffMax: 1,
+      groupMin: 0,
+    },
+    key => hops[key],
+  );
+  const peer = data => ['net:x.com:8008~noauth', data];
+
+  t.true(rule.test(peer({source: 'pub', key: '@a', tags: ['home']})), 'ok');
+  t.false(rule.test(peer({source: 'seed', key: '@a', tags: ['home']})), 'src');
+  t.false(rule.test(peer({source: 'pub', key: '@b', tags: ['home']})), 'hops');
+  t.false(rule.test(peer({source: 'pub', key: '@c', tags: ['home']})), '?hop');
+  t.false(rule.test(peer({source: 'pub', key: '@a'})), 'tag');
+  t.end();
+});
@@ -0,0 +1,114 @@
+const tape = require('tape');
+const pull = require('pull-stream');
+const createSimulation = require('./sim');
+
+const KEY_A = 'pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+const KEY_B = Buffer.alloc(32, 1).toString('base64');
+const ADDR_A = `net:localhost:9001~shs:${KEY_A}`;
+const ADDR_B = `net:localhost:9002~shs:${KEY_B}`;
+
+const ONE_RULE = {
+  name: 'all',
+  match: {},
+  quota: 1,
+  backoffStep: 1e3,
+  backoffMax: 60e3,
+  groupMin: 0,
+};
+
+tape('after 3 failures the peer waits at least 8s', async t => {
+  const sim = createSimulation({
+    seed: 42,
+    peers: [{address: ADDR_A, failureRate: 1, latency: 100}],
+    config: {conn: {scheduler: {rules: [ONE_RULE]}}},
+  });
+  sim.ssb.conn.remember(ADDR_A, {source: 'manual'});
+  await sim.start();
+  await sim.advance(60e3);
+
+  const attempts = sim.attemptsTo(ADDR_A);
+  t.true(attempts.length >= 4, 'there were at least 4 attempts');
+  const thirdFailure = attempts[2].timestamp + 100;
+  const gap = attempts[3].timestamp - thirdFailure;
+  t.true(gap >= 8e3, `waited ${gap}ms after the third failure`);
+  t.equals(sim.ssb.conn.db().get(ADDR_A).failure, attempts.length);
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
+
+tape('explain() tells that a failed peer is backing off', async t => {
+  const sim = createSimulation({
+    seed: 7,
+    peers: [{address: ADDR_A, failureRate: 1}],
+    config: {conn: {scheduler: {rules: [ONE_RULE]}}},
+  });
+  sim.ssb.conn.remember(ADDR_A, {source: 'manual'});
+  await sim.start();
+
+  const rules = new Set();
+  const exclusions = new Set();
+  for (let i = 0; i < 40; i++) {
+    await sim.advance(500);
+    const explanation = sim.ssb.connScheduler.explain(ADDR_A);
+    if (!explanation) continue;
+    for (const c of explanation.candidates) {
+      rules.add(c.rule);
+      if (c.excludedBy) exclusions.add(c.excludedBy);
+    }
+  }
+  t.deepEquals(Array.from(rules), ['all'], 'considered under the rule');
+  t.deepEquals(
+    Array.from(exclusions),
+    ['exp-backoff'],
+    'candidate was excluded by the exponential backoff',
+  );
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
+
+tape('stuck connection attempts are purged', async t => {
+  const sim = createSimulation({
+    seed: 3,
+    peers: [{address: ADDR_B, hang: true}],
+    config: {conn: {scheduler: {rules: [ONE_RULE]}}},
+  });
+  const decisions = [];
+  pull(
+    sim.ssb.connScheduler.decisions(),
+    pull.drain(d => decisions.push(d)),
+  );
+  sim.ssb.conn.remember(ADDR_B, {source: 'manual'});
+  await sim.start();
+  await sim.advance(30e3);
+
+  t.deepEquals(
+    decisions.slice(0, 2).map(d => [d.action, d.reason]),
+    [['connect', 'below-quota'], ['disconnect', 'stuck-connecting']],
+    'connected then purged the stuck attempt',
+  );
+  const [connect, disconnect] = decisions;
+  t.true(disconnect.timestamp - connect.timestamp >= 10e3, 'after 10s');
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
+
+tape('wakeup and network changes reset the ConnHub', async t => {
+  const sim = createSimulation({seed: 1});
+  await sim.start();
+  const hub = sim.ssb.conn.hub();
+  let resets = 0;
+  hub.reset = () => {
+    resets += 1;
+  };
+
+  sim.wakeup();
+  t.equals(resets, 1, 'reset upon wakeup');
+  sim.changeNetwork();
+  t.equals(resets, 2, 'reset upon network change');
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
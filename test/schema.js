@@ -0,0 +1,153 @@
+const tape = require('tape');
+const os = require('os');
+const fs = require('fs');
+const path = require('path');
+const ConnDB = require('ssb-conn-db');
+const mock = require('./mock');
+const {validateEntry, SCHEMA_VERSION} = require('../lib/schema');
+
+const KEY = 'pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+const FEED_ID = `@${KEY}.ed25519`;
+const PUB_ADDR = `net:pub.example.com:8008~shs:${KEY}`;
+const LAN_ADDR = `net:192.168.1.20:8008~shs:${KEY}`;
+const OTHER_ADDR = `net:other.example.com:8008~shs:${KEY}`;
+
+function loadAfterUpgrade(files, cb) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'conntest-'));
+  for (const name of Object.keys(files)) {
+    fs.writeFileSync(path.join(dir, name), JSON.stringify(files[name]));
+  }
+  const ssb = mock({path: dir, conn: {autostart: false}});
+  ssb.conn
+    .db()
+    .loaded()
+    .then(() => setImmediate(() => cb(ssb)));
+}
+
+tape('validateEntry() checks the known fields', t => {
+  t.deepEquals(validateEntry(PUB_ADDR, {key: FEED_ID, failure: 2}), []);
+  t.deepEquals(validateEntry(PUB_ADDR, {someOtherField: {}}), [], 'extra');
+  t.deepEquals(
+    validateEntry('pub.example.com', {failure: -1, pinned: 'yes'}),
+    [
+      'address should be a multiserver address',
+      'failure should be a non-negative integer',
+      'pinned should be a boolean',
+    ],
+  );
+  t.deepEquals(validateEntry(PUB_ADDR, 'data'), ['data should be an object']);
+  t.end();
+});
+
+tape('old gossip.json files are migrated to the current schema', t => {
+  const now = Date.now();
+  const gossip = [
+    {
+      host: 'pub.example.com',
+      port: 8008,
+      key: FEED_ID,
+      source: 'pub',
+      birth: now,
+      state: 'connected',
+      client: true,
+      ping: {rtt: {mean: 100}, skew: 3},
+    },
+    {host: '192.168.1.20', port: 8008, key: FEED_ID, source: 'local'},
+    {
+      host: 'other.example.com',
+      port: 8008,
+      key: FEED_ID,
+      source: 'pub',
+      failure: 'many',
+    },
+  ];
+  loadAfterUpgrade({'gossip.json': gossip}, ssb => {
+    const db = ssb.conn.db();
+    const pub = db.get(PUB_ADDR);
+    t.ok(pub, 'pub kept');
+    t.equals(pub.state, undefined, 'connection state dropped');
+    t.equals(pub.client, undefined, 'connection state dropped');
+    t.deepEquals(pub.ping, {rtt: {mean: 100}}, 'legacy skew dropped');
+    t.false(db.has(LAN_ADDR), 'legacy local peer dropped');
+    t.false(db.has(OTHER_ADDR), 'invalid entry removed');
+
+    const quarantined = ssb.conn.quarantined();
+    t.equals(quarantined.length, 1, 'invalid entry quarantined');
+    t.equals(quarantined[0].address, OTHER_ADDR, 'with its address');
+    t.equals(quarantined[0].data.failure, 'many', 'with its data');
+    t.deepEquals(
+      quarantined[0].errors,
+      ['failure should be a non-negative integer'],
+      'with the reasons',
+    );
+    t.end();
+  });
+});
+
+tape('conn.json at the current version is only validated', t => {
+  const now = Date.now();
+  const files = {
+    'conn-schema.json': {version: SCHEMA_VERSION},
+    'conn.json': {
+      [LAN_ADDR]: {birth: now, type: 'lan', key: FEED_ID},
+      [PUB_ADDR]: {birth: now, key: 'not a feed'},
+      'not an address': {birth: now},
+    },
+  };
+  loadAfterUpgrade(files, ssb => {
+    const db = ssb.conn.db();
+    t.true(db.has(LAN_ADDR), 'not migrated again');
+    t.false(db.has(PUB_ADDR), 'invalid key quarantined');
+    t.false(db.has('not an address'), 'invalid address quarantined');
+    t.deepEquals(
+      ssb.conn.quarantined().map(q => q.address),
+      [PUB_ADDR, 'not an address'],
+      'both quarantined',
+    );
+    t.end();
+  });
+});
+
+tape('conn.remember() and db.update() refuse invalid data', t => {
+  const ssb = mock({conn: {autostart: false}});
+  ssb.conn.remember(PUB_ADDR, {key: FEED_ID, source: 'manual'});
+
+  t.throws(
+    () => ssb.conn.remember(PUB_ADDR, {failure: -1}),
+    /Invalid ConnDB entry/,
+    'remember() throws',
+  );
+  t.throws(
+    () => ssb.conn.db().update(PUB_ADDR, () => ({pinned: 'yes'})),
+    /pinned should be a boolean/,
+    'update() throws',
+  );
+  t.throws(
+    () => ssb.conn.remember(OTHER_ADDR, {tags: 'friends'}),
+    /tags should be an array of strings/,
+    'remember() throws for new entries too',
+  );
+  const data = ssb.conn.db().get(PUB_ADDR);
+  t.equals(data.failure, undefined, 'unchanged');
+  t.equals(data.pinned, undefined, 'unchanged');
+  t.false(ssb.conn.db().has(OTHER_ADDR), 'not stored');
+
+  ssb.conn.db().update(PUB_ADDR, {failure: 1});
+  t.equals(ssb.conn.db().get(PUB_ADDR).failure, 1, 'valid update applied');
+  t.end();
+});
+
+tape('invalid updates from hub events are skipped', t => {
+  loadAfterUpgrade({}, ssb => {
+    ssb.conn.remember(PUB_ADDR, {key: FEED_ID, source: 'manual'});
+    // As if written by another version, after the upgrade
+    ConnDB.prototype.update.call(ssb.conn.db(), PUB_ADDR, {pinned: 'yes'});
+
+    ssb.conn.connect(PUB_ADDR, err => {
+      t.error(err, 'connected without throwing');
+      const data = ssb.conn.db().get(PUB_ADDR);
+      t.equals(data.lastConnected, undefined, 'update skipped');
+      t.end();
+    });
+  });
+});
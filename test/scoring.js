@@ -0,0 +1,70 @@
+const tape = require('tape');
+const mock = require('./mock');
+const {createScorer} = require('../lib/scoring');
+
+const now = Date.now();
+const ADDR_A = 'net:a.com:8008~shs:AAAA';
+const ADDR_B = 'net:b.com:8008~shs:BBBB';
+
+tape('default scorer prefers fast, stable, rarely failing peers', t => {
+  const score = createScorer();
+  const good = [
+    ADDR_A,
+    {ping: {rtt: {mean: 50}}, duration: {mean: 60 * 60e3}, failure: 0},
+  ];
+  const slow = [ADDR_A, {...good[1], ping: {rtt: {mean: 3000}}}];
+  const flaky = [ADDR_A, {...good[1], failure: 4}];
+  const short = [ADDR_A, {...good[1], duration: {mean: 10e3}}];
+
+  t.true(score(good, {now}) > score(slow, {now}), 'latency matters');
+  t.true(score(good, {now}) > score(flaky, {now}), 'failures matter');
+  t.true(score(good, {now}) > score(short, {now}), 'duration matters');
+  t.true(
+    score(good, {now, hops: 1}) > score(good, {now, hops: 2}),
+    'hops matter',
+  );
+  t.true(
+    score([ADDR_A, {stateChange: now - 60 * 60e3}], {now}) >
+      score([ADDR_A, {stateChange: now - 60e3}], {now}),
+    'recency matters',
+  );
+  t.end();
+});
+
+tape('default scorer weights are configurable', t => {
+  const score = createScorer({latency: 0, failure: 0});
+  const fast = [ADDR_A, {ping: {rtt: {mean: 50}}, failure: 0}];
+  const slow = [ADDR_A, {ping: {rtt: {mean: 3000}}, failure: 9}];
+  t.equals(score(fast, {now}), score(slow, {now}), 'ignores zero weights');
+  t.end();
+});
+
+tape('conn.query() ranks peers with a custom scorer', t => {
+  const ssb = mock();
+  const query = ssb.conn.query();
+  const peers = [
+    [ADDR_A, {key: '@a', failure: 0}],
+    [ADDR_B, {key: '@b', failure: 5}],
+  ];
+
+  t.deepEquals(
+    query.sortByScore(peers.slice()).map(p => p[0]),
+    [ADDR_A, ADDR_B],
+    'default scorer ranks A first',
+  );
+
+  query.useScorer(([, data]) => data.failure);
+  t.deepEquals(
+    query.sortByScore(peers.slice()).map(p => p[0]),
+    [ADDR_B, ADDR_A],
+    'custom scorer ranks B first',
+  );
+
+  query.useScorer(null);
+  query.setHops({'@a': 3, '@b': 0});
+  t.true(
+    query.score([ADDR_A, {key: '@a'}]) < query.score([ADDR_A, {key: '@b'}]),
+    'hops given to the query are used by the scorer',
+  );
+  t.end();
+});
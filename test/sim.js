@@ -0,0 +1,195 @@
+const CONN = require('../core');
+const ConnScheduler = require('../scheduler');
+const os = require('os');
+const fs = require('fs');
+const path = require('path');
+const Caps = require('ssb-caps');
+const Ref = require('ssb-ref');
+
+// Deterministic pseudo-random numbers between 0 and 1 (mulberry32)
+function seededRandom(seed) {
+  let a = seed >>> 0;
+  return function random() {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function flushMicrotasks() {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+function createVirtualClock(start = 1e12) {
+  let now = start;
+  let nextId = 1;
+  const timers = new Map();
+
+  function schedule(fn, ms, interval) {
+    const id = nextId++;
+    timers.set(id, {fn, at: now + Math.max(ms || 0, 0), interval});
+    return id;
+  }
+
+  function nextTimer(until) {
+    let next = null;
+    for (const [id, timer] of timers) {
+      if (timer.at > until) continue;
+      if (!next || timer.at < next[1].at) next = [id, timer];
+    }
+    return next;
+  }
+
+  return {
+    now: () => now,
+    setTimeout: (fn, ms) => schedule(fn, ms, 0),
+    clearTimeout: id => timers.delete(id),
+    setInterval: (fn, ms) => schedule(fn, ms, Math.max(ms, 1)),
+    clearInterval: id => timers.delete(id),
+
+    // Runs all timers due within `ms` of virtual time, in order, letting
+    // promises settle between each of them
+    async advance(ms) {
+      const until = now + ms;
+      await flushMicrotasks();
+      let next;
+      while ((next = nextTimer(until))) {
+        const [id, timer] = next;
+        now = timer.at;
+        if (timer.interval) timer.at += timer.interval;
+        else timers.delete(id);
+        timer.fn();
+        await flushMicrotasks();
+      }
+      now = until;
+    },
+  };
+}
+
+/**
+ * Creates CONN and ConnScheduler running on a virtual clock, with a seeded
+ * random number generator and scripted virtual peers instead of a network.
+ *
+ * Each peer in `opts.peers` is an object with:
+ * - `address`: multiserver address, required
+ * - `latency`: milliseconds until a connection attempt settles (default 100)
+ * - `failureRate`: probability (0 to 1) of a connection attempt failing
+ * - `blocked`: if true, the peer refuses all our connection attempts
+ * - `hang`: if true, connection attempts never settle
+ * - `online`: if false, connection attempts fail (default true)
+ */
+module.exports = function createSimulation(opts = {}) {
+  const testPath = fs.mkdtempSync(path.join(os.tmpdir(), 'connsim-'));
+  const clock = createVirtualClock(opts.start);
+  const random = seededRandom(opts.seed || 1);
+  const wakeupListeners = new Set();
+  const networkListeners = new Set();
+  const rpcListeners = new Set();
+  const peers = new Map();
+  const attempts = [];
+  let network = true;
+
+  for (const peer of opts.peers || []) {
+    const key = Ref.getKeyFromAddress(peer.address);
+    peers.set(peer.address, {key, latency: 100, online: true, ...peer});
+  }
+
+  const environment = {
+    now: clock.now,
+    random,
+    setTimeout: clock.setTimeout,
+    clearTimeout: clock.clearTimeout,
+    setInterval: clock.setInterval,
+    clearInterval: clock.clearInterval,
+    hasNetwork: () => network,
+    onWakeup(fn) {
+      wakeupListeners.add(fn);
+      return () => wakeupListeners.delete(fn);
+    },
+    onNetwork(fn) {
+      networkListeners.add(fn);
+      return () => networkListeners.delete(fn);
+    },
+  };
+
+  const ssb = {
+    id: '@simulatedself0000000000000000000000000000000=.ed25519',
+    peers: {},
+    addListener(event, fn) {
+      if (event === 'rpc:connect') rpcListeners.add(fn);
+    },
+    removeListener(event, fn) {
+      if (event === 'rpc:connect') rpcListeners.delete(fn);
+    },
+    close: {
+      hook: () => {},
+    },
+    connect(address, cb) {
+      const peer = peers.get(address);
+      attempts.push({address, timestamp: clock.now()});
+      if (peer && peer.hang) return;
+      const latency = peer ? peer.latency : 100;
+      clock.setTimeout(() => {
+        if (!peer || !peer.online || !network) {
+          cb(new Error('simulated peer is unreachable'));
+        } else if (peer.blocked) {
+          cb(new Error('simulated peer refused the connection'));
+        } else if (peer.failureRate && random() < peer.failureRate) {
+          cb(new Error('simulated connection failure'));
+        } else {
+          cb(null, {id: peer.key, close: (_force, cb2) => cb2 && cb2()});
+        }
+      }, latency);
+    },
+  };
+  if (opts.hops) {
+    ssb.friends = {hops: cb => cb(null, opts.hops)};
+  }
+
+  const config = {
+    path: testPath,
+    caps: Caps,
+    ...opts.config,
+    conn: {autostart: false, ...(opts.config || {}).conn, environment},
+  };
+
+  ssb.conn = new CONN(ssb, config);
+  ssb.connScheduler = new ConnScheduler(ssb, config);
+
+  return {
+    ssb,
+    clock,
+    peers,
+    attempts,
+    advance: ms => clock.advance(ms),
+    async start() {
+      await ssb.conn.db().loaded();
+      ssb.connScheduler.start();
+    },
+    // A remote peer connects to us, from an address that may not be in ConnDB
+    inbound(address) {
+      const onClosed = [];
+      const rpc = {
+        id: Ref.getKeyFromAddress(address),
+        stream: {address, meta: 'net'},
+        on: (event, fn) => event === 'closed' && onClosed.push(fn),
+        close: (_force, cb) => {
+          onClosed.forEach(fn => fn());
+          if (cb) cb();
+        },
+      };
+      rpcListeners.forEach(fn => fn(rpc, false));
+    },
+    wakeup: () => wakeupListeners.forEach(fn => fn()),
+    changeNetwork: () => networkListeners.forEach(fn => fn()),
+    setNetwork(available) {
+      network = available;
+    },
+    attemptsTo: address => attempts.filter(a => a.address === address),
+  };
+};
+
+module.exports.seededRandom = seededRandom;
+module.exports.createVirtualClock = createVirtualClock;
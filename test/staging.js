@@ -0,0 +1,136 @@
+const tape = require('tape');
+const os = require('os');
+const fs = require('fs');
+const path = require('path');
+const pull = require('pull-stream');
+const mock = require('./mock');
+const createSimulation = require('./sim');
+const ConnScheduler = require('../scheduler');
+const {StagingStore} = require('../lib/staging');
+
+const KEY = 'pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+const PUB_ADDR = `net:pub.example.com:8008~shs:${KEY}`;
+const LAN_ADDR = `net:192.168.1.20:8008~shs:${KEY}`;
+
+tape('StagingStore looks up TTLs by type', t => {
+  const ssb = mock({conn: {staging: {ttl: {pub: null, room: 60e3}}}});
+  const store = ssb.conn.stagingStore();
+  t.equals(store.ttl('pub'), null, 'configured to never expire');
+  t.equals(store.ttl('room'), 60e3, 'configured');
+  t.equals(store.ttl('lan'), 10e3, 'default for lan');
+  t.equals(store.ttl('internet'), null, 'default');
+  const now = 1e12;
+  const peer = [LAN_ADDR, {type: 'lan', stagingUpdated: now - 11e3}];
+  t.true(store.isExpired(peer, now), 'old lan peer expired');
+  t.false(store.isExpired([PUB_ADDR, {type: 'pub'}], now), 'pub never does');
+
+  try {
+    new StagingStore(null, null, null, null, {persist: 'yes', ttl: {lan: -1}});
+    t.fail('should have thrown');
+  } catch (err) {
+    t.true(err.message.includes('Invalid config.conn.staging'), 'throws');
+    t.true(err.message.includes('persist should be'), 'invalid persist');
+    t.true(err.message.includes('ttl.lan should be'), 'invalid ttl');
+  }
+  t.end();
+});
+
+tape('staged peers are restored on startup when persisted', t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'conntest-'));
+  const config = {path: dir, conn: {staging: {persist: true}}};
+  const ssb1 = mock(config);
+  t.true(ssb1.conn.stage(PUB_ADDR, {type: 'pub', key: KEY}), 'staged pub');
+  t.true(ssb1.conn.stage(LAN_ADDR, {type: 'lan', key: KEY}), 'staged lan');
+  ssb1.conn.stagingStore().advanceCursor(1234);
+  ssb1.conn.stagingStore().close();
+
+  const saved = JSON.parse(
+    fs.readFileSync(path.join(dir, 'conn-staging.json'), 'utf-8'),
+  );
+  t.equals(saved.entries.length, 2, 'both saved');
+  t.equals(saved.cursor, 1234, 'cursor saved');
+
+  const staged = saved.entries.find(([addr]) => addr === LAN_ADDR)[1];
+  saved.entries.find(([addr]) => addr === LAN_ADDR)[1] = {
+    ...staged,
+    stagingUpdated: staged.stagingUpdated - 60e3,
+  };
+  fs.writeFileSync(path.join(dir, 'conn-staging.json'), JSON.stringify(saved));
+
+  const ssb2 = mock(config);
+  const pub = ssb2.conn.staging().get(PUB_ADDR);
+  t.ok(pub, 'pub restored');
+  t.equals(pub.type, 'pub', 'with its data');
+  t.notOk(ssb2.conn.staging().get(LAN_ADDR), 'expired lan not restored');
+  t.equals(ssb2.conn.stagingStore().cursor, 1234, 'cursor restored');
+
+  const ssb3 = mock({path: dir});
+  t.notOk(ssb3.conn.staging().get(PUB_ADDR), 'not restored unless persisted');
+
+  const ssb4 = mock({...config, conn: {...config.conn, privacy: 'tor-only'}});
+  t.notOk(ssb4.conn.staging().get(PUB_ADDR), 'not restored when refused');
+  t.end();
+});
+
+tape('pub discovery continues from the persisted cursor', t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'conntest-'));
+  const config = {path: dir, conn: {staging: {persist: true}}};
+  const pubMsg = {
+    key: '%pubmsg',
+    timestamp: 5678,
+    value: {
+      content: {
+        type: 'pub',
+        address: {host: 'pub.example.com', port: 8008, key: `@${KEY}.ed25519`},
+      },
+    },
+  };
+
+  function startWithPubs(cb) {
+    const ssb = mock(config);
+    const queries = [];
+    ssb.ready = () => true;
+    ssb.messagesByType = opts => {
+      queries.push(opts);
+      return pull.values(opts.gt >= pubMsg.timestamp ? [] : [pubMsg]);
+    };
+    ssb.connScheduler = new ConnScheduler(ssb, config);
+    ssb.connScheduler.start();
+    setTimeout(() => {
+      ssb.connScheduler.stop();
+      ssb.conn.stagingStore().close();
+      cb(ssb, queries);
+    }, 3000);
+  }
+
+  startWithPubs((ssb1, queries1) => {
+    t.equals(queries1[0].gt, undefined, 'read all pub messages at first');
+    t.ok(ssb1.conn.db().get(PUB_ADDR), 'discovered pub remembered');
+    t.ok(ssb1.conn.staging().get(PUB_ADDR), 'then staged once ranked');
+    t.equals(ssb1.conn.stagingStore().cursor, 5678, 'cursor advanced');
+
+    startWithPubs((ssb2, queries2) => {
+      t.equals(queries2[0].gt, 5678, 'continued from the cursor');
+      t.ok(ssb2.conn.staging().get(PUB_ADDR), 'pub still staged');
+      t.end();
+    });
+  });
+});
+
+tape('the scheduler unstages peers when their TTL runs out', async t => {
+  const sim = createSimulation({
+    seed: 37,
+    config: {conn: {staging: {ttl: {lan: 60e3}}, scheduler: {rules: []}}},
+  });
+  await sim.start();
+  sim.ssb.conn.stage(LAN_ADDR, {type: 'lan', key: KEY});
+  sim.ssb.conn.stage(PUB_ADDR, {type: 'pub', key: KEY});
+  await sim.advance(30e3);
+  t.ok(sim.ssb.conn.staging().get(LAN_ADDR), 'lan still staged at 30s');
+  await sim.advance(40e3);
+  t.notOk(sim.ssb.conn.staging().get(LAN_ADDR), 'lan unstaged after 60s');
+  t.ok(sim.ssb.conn.staging().get(PUB_ADDR), 'pub still staged');
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
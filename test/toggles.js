@@ -0,0 +1,125 @@
+const tape = require('tape');
+const os = require('os');
+const fs = require('fs');
+const path = require('path');
+const pull = require('pull-stream');
+const mock = require('./mock');
+const createSimulation = require('./sim');
+
+function address(i) {
+  const key = Buffer.alloc(32, i).toString('base64');
+  return `net:peer${i}.example.com:8008~shs:${key}`;
+}
+
+function feedId(i) {
+  return `@${Buffer.alloc(32, i).toString('base64')}.ed25519`;
+}
+
+function silently(fn) {
+  const error = console.error;
+  console.error = () => {};
+  try {
+    return fn();
+  } finally {
+    console.error = error;
+  }
+}
+
+tape('setEnabled() disconnects and stops connecting to a kind', async t => {
+  const sim = createSimulation({
+    seed: 79,
+    peers: [{address: address(1)}, {address: address(2)}],
+    config: {conn: {probe: {interval: 0}}},
+  });
+  sim.ssb.conn.remember(address(1), {key: feedId(1), type: 'pub'});
+  sim.ssb.conn.remember(address(2), {key: feedId(2), source: 'manual'});
+  const decisions = [];
+  pull(
+    sim.ssb.connScheduler.decisions(),
+    pull.drain(d => decisions.push(d)),
+  );
+
+  await sim.start();
+  await sim.advance(3e3);
+  t.equals(sim.ssb.conn.hub().getState(address(1)), 'connected', 'pub up');
+
+  sim.ssb.connScheduler.setEnabled('pub', false);
+  await sim.advance(1e3);
+  t.false(sim.ssb.conn.hub().getState(address(1)), 'pub disconnected');
+  t.equals(sim.ssb.conn.hub().getState(address(2)), 'connected', 'other up');
+  const last = decisions[decisions.length - 1];
+  t.deepEquals([last.action, last.reason], ['disconnect', 'disabled']);
+
+  const attempts = sim.attemptsTo(address(1)).length;
+  await sim.advance(60e3);
+  t.equals(sim.attemptsTo(address(1)).length, attempts, 'no new attempts');
+  t.deepEquals(
+    sim.ssb.connScheduler.enabled(),
+    {lan: true, pub: false, seed: true, bt: true},
+    'enabled()',
+  );
+
+  sim.ssb.connScheduler.setEnabled('global', true);
+  await sim.advance(60e3);
+  t.equals(sim.ssb.conn.hub().getState(address(1)), 'connected', 'pub again');
+
+  t.throws(
+    () => sim.ssb.connScheduler.setEnabled('friends', false),
+    /Unknown discovery kind "friends"/,
+    'unknown kind',
+  );
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
+
+tape('disabled seeds are neither remembered nor connected to', async t => {
+  const sim = createSimulation({
+    seed: 83,
+    peers: [{address: address(3)}],
+    config: {seeds: [address(3)], conn: {probe: {interval: 0}}},
+  });
+  sim.ssb.connScheduler.setEnabled('seed', false);
+  await sim.start();
+  await sim.advance(10e3);
+  t.false(sim.ssb.conn.db().has(address(3)), 'not remembered');
+  t.equals(sim.attemptsTo(address(3)).length, 0, 'not connected to');
+
+  sim.ssb.connScheduler.setEnabled('seed', true);
+  await sim.advance(10e3);
+  t.true(sim.ssb.conn.db().has(address(3)), 'remembered once enabled');
+  t.equals(sim.ssb.conn.hub().getState(address(3)), 'connected', 'connected');
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
+
+tape('gossip.enable() and disable() are persisted toggles', async t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'conntest-'));
+  const file = path.join(dir, 'conn-toggles.json');
+  fs.writeFileSync(file, JSON.stringify({lan: false}));
+  const ssb = mock({path: dir});
+  await ssb.conn.db().loaded();
+  await new Promise(resolve => setImmediate(resolve));
+  t.false(ssb.connScheduler.enabled().lan, 'loaded from the file');
+
+  const enabled = silently(() => ssb.gossip.enable('local'));
+  t.equals(enabled, 'enabled gossip type local', 'legacy return value');
+  t.true(ssb.connScheduler.enabled().lan, 'local means lan');
+
+  ssb.conn.stage(address(4), {type: 'lan', key: feedId(4)});
+  silently(() => ssb.gossip.disable());
+  t.false(ssb.connScheduler.enabled().pub, 'global by default');
+  silently(() => ssb.gossip.disable('local'));
+  t.false(ssb.conn.staging().get(address(4)), 'LAN peer unstaged');
+
+  const ignored = silently(() => ssb.gossip.enable('friends'));
+  t.equals(ignored, undefined, 'unknown legacy types are ignored');
+  t.doesNotThrow(() => silently(() => ssb.gossip.disable('connections')));
+
+  ssb.connScheduler.stop();
+  t.deepEquals(
+    JSON.parse(fs.readFileSync(file, 'utf-8')),
+    {lan: false, pub: false},
+    'persisted',
+  );
+  t.end();
+});
@@ -0,0 +1,139 @@
+const tape = require('tape');
+const mock = require('./mock');
+const createSimulation = require('./sim');
+const {transportOf, TransportPreference} = require('../lib/transports');
+
+const KEY = 'pAhDcHjunq6epPvYYo483vBjcuDkE10qrc2tYC827R0=';
+const ID = `@${KEY}.ed25519`;
+const LAN_ADDR = `net:192.168.1.10:8008~shs:${KEY}`;
+const NET_ADDR = `net:example.com:8008~shs:${KEY}`;
+const ONION_ADDR = `onion:abcdefghijklmnop.onion:8008~shs:${KEY}`;
+
+const ONE_RULE = {
+  name: 'all',
+  match: {},
+  quota: 1,
+  backoffStep: 1e3,
+  backoffMax: 60e3,
+  groupMin: 0,
+};
+
+tape('transportOf() names the transport of an address', t => {
+  t.equals(transportOf(LAN_ADDR), 'lan', 'private IP');
+  t.equals(transportOf(NET_ADDR), 'net', 'public host');
+  t.equals(transportOf(NET_ADDR, {type: 'lan'}), 'lan', 'lan type');
+  t.equals(transportOf(ONION_ADDR), 'onion', 'onion');
+  t.equals(transportOf(`bt:aabbccddeeff~shs:${KEY}`), 'bt', 'bluetooth');
+  t.equals(transportOf(`wss:example.com:443~shs:${KEY}`), 'ws', 'websocket');
+  t.end();
+});
+
+tape('TransportPreference ranks and restricts transports', t => {
+  const defaults = new TransportPreference();
+  t.true(
+    defaults.rank(LAN_ADDR) < defaults.rank(NET_ADDR) &&
+      defaults.rank(NET_ADDR) < defaults.rank(ONION_ADDR),
+    'lan > net > onion by default',
+  );
+  t.true(defaults.isAllowed(`foo:bar~shs:${KEY}`), 'unknown is allowed');
+
+  const onionOnly = new TransportPreference(['onion']);
+  t.true(onionOnly.isAllowed(ONION_ADDR), 'onion is allowed');
+  t.false(onionOnly.isAllowed(NET_ADDR), 'net is not allowed');
+
+  try {
+    new TransportPreference('onion');
+    t.fail('should have thrown');
+  } catch (err) {
+    t.true(err.message.includes('config.conn.transports'), 'throws');
+  }
+  t.end();
+});
+
+tape('peersByKey() and gossip.connect() follow the preference', t => {
+  const ssb = mock({conn: {transports: ['onion', 'net']}});
+  ssb.conn.remember(NET_ADDR, {key: ID});
+  ssb.conn.remember(ONION_ADDR, {key: ID});
+
+  const [[, data]] = ssb.conn.query().peersByKey();
+  t.deepEquals(data.addresses, [ONION_ADDR, NET_ADDR], 'onion first');
+
+  ssb.gossip.connect(ID, err => {
+    t.error(err, 'no error');
+    t.equals(ssb.conn.hub().getState(ONION_ADDR), 'connected', 'via onion');
+    t.end();
+  });
+});
+
+tape('the scheduler falls back to the next transport', async t => {
+  const sim = createSimulation({
+    seed: 11,
+    peers: [
+      {address: NET_ADDR, online: false},
+      {address: ONION_ADDR, latency: 500},
+    ],
+    config: {
+      conn: {transports: ['net', 'onion'], scheduler: {rules: [ONE_RULE]}},
+    },
+  });
+  sim.ssb.conn.remember(NET_ADDR, {key: ID, source: 'manual'});
+  sim.ssb.conn.remember(ONION_ADDR, {key: ID, source: 'manual'});
+  await sim.start();
+  await sim.advance(20e3);
+
+  t.deepEquals(
+    sim.attempts.map(a => a.address),
+    [NET_ADDR, ONION_ADDR],
+    'tried net first, then onion',
+  );
+  t.true(
+    sim.ssb.conn.history(ONION_ADDR).some(ev => ev.type === 'connected'),
+    'connected via onion',
+  );
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
+
+tape('the scheduler ignores transports that are not allowed', async t => {
+  const sim = createSimulation({
+    seed: 12,
+    peers: [{address: NET_ADDR}],
+    config: {conn: {transports: ['onion'], scheduler: {rules: [ONE_RULE]}}},
+  });
+  sim.ssb.conn.remember(NET_ADDR, {key: ID, source: 'manual'});
+  await sim.start();
+
+  const exclusions = new Set();
+  for (let i = 0; i < 20; i++) {
+    await sim.advance(500);
+    const explanation = sim.ssb.connScheduler.explain(NET_ADDR);
+    if (!explanation) continue;
+    for (const c of explanation.candidates) exclusions.add(c.excludedBy);
+  }
+  t.deepEquals(Array.from(exclusions), ['transport-not-allowed'], 'excluded');
+  t.equals(sim.attempts.length, 0, 'no attempts');
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
+
+tape('a disallowed address never represents its feed', async t => {
+  const sim = createSimulation({
+    seed: 14,
+    peers: [{address: NET_ADDR}, {address: ONION_ADDR}],
+    config: {conn: {transports: ['onion'], scheduler: {rules: [ONE_RULE]}}},
+  });
+  sim.ssb.conn.remember(NET_ADDR, {key: ID, source: 'manual'});
+  sim.ssb.conn.remember(ONION_ADDR, {key: ID, source: 'manual', failure: 3});
+  const [byKey] = sim.ssb.conn.query().peersByKey();
+  t.deepEquals(byKey[1].addresses, [ONION_ADDR, NET_ADDR], 'allowed first');
+
+  await sim.start();
+  await sim.advance(10e3);
+  t.equals(sim.attemptsTo(NET_ADDR).length, 0, 'disallowed never dialled');
+  t.equals(sim.ssb.conn.hub().getState(ONION_ADDR), 'connected', 'allowed');
+
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
@@ -0,0 +1,115 @@
+const tape = require('tape');
+const pull = require('pull-stream');
+const createSimulation = require('./sim');
+const {ConnWatchdog} = require('../lib/watchdog');
+
+function address(i) {
+  const key = Buffer.alloc(32, i).toString('base64');
+  return `net:peer${i}.example.com:8008~shs:${key}`;
+}
+
+function feedId(i) {
+  return `@${Buffer.alloc(32, i).toString('base64')}.ed25519`;
+}
+
+function collect(source) {
+  const items = [];
+  pull(source, pull.drain(item => items.push(item)));
+  return items;
+}
+
+tape('conn.health() is healthy when connected, else offline', async t => {
+  const sim = createSimulation({
+    seed: 103,
+    peers: [{address: address(1)}],
+    config: {conn: {probe: {interval: 0}}},
+  });
+  sim.ssb.conn.remember(address(1), {key: feedId(1), source: 'manual'});
+  await sim.start();
+  await sim.advance(3e3);
+
+  const health = sim.ssb.conn.health();
+  t.equals(health.state, 'healthy', 'healthy');
+  t.deepEquals(health.problems, [], 'no problems');
+  t.equals(health.connected, 1, 'one connection');
+  t.equals(health.lastConnectedAt, sim.clock.now(), 'connected now');
+
+  const changes = collect(sim.ssb.conn.liveHealth());
+  sim.setNetwork(false);
+  await sim.advance(3e3);
+  t.equals(sim.ssb.conn.health().state, 'offline', 'offline');
+  t.deepEquals(
+    changes.map(h => h.state),
+    ['healthy', 'offline'],
+    'current health, then changes',
+  );
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
+
+tape('the node is isolated after failing to connect for long', async t => {
+  const sim = createSimulation({
+    seed: 107,
+    peers: [1, 2, 3].map(i => ({address: address(i), online: false})),
+    config: {
+      conn: {
+        probe: {interval: 0},
+        watchdog: {isolatedAfter: 60e3, maxFailureStreak: 3},
+      },
+    },
+  });
+  for (let i = 1; i <= 3; i++) {
+    sim.ssb.conn.remember(address(i), {key: feedId(i), source: 'manual'});
+  }
+  const changes = collect(sim.ssb.conn.liveHealth());
+  await sim.start();
+  await sim.advance(10e3);
+
+  const health = sim.ssb.conn.health();
+  t.equals(health.state, 'degraded', 'degraded at first');
+  t.deepEquals(health.problems, ['no-connections', 'failure-streak']);
+  t.true(health.failureStreak >= 3, 'failure streak');
+
+  await sim.advance(60e3);
+  t.equals(sim.ssb.conn.health().state, 'isolated', 'then isolated');
+  t.equals(sim.ssb.conn.health().lastConnectedAt, null, 'never connected');
+  t.equals(changes[changes.length - 1].state, 'isolated', 'notified');
+  sim.ssb.connScheduler.stop();
+  t.end();
+});
+
+tape('the node is degraded when connected without replication', t => {
+  const sim = createSimulation({seed: 109, peers: [{address: address(4)}]});
+  const env = {
+    now: sim.clock.now,
+    setTimeout: sim.clock.setTimeout,
+    clearTimeout: sim.clock.clearTimeout,
+    setInterval: sim.clock.setInterval,
+    clearInterval: sim.clock.clearInterval,
+    hasNetwork: () => true,
+  };
+  let lastReplication = 0;
+  const watchdog = new ConnWatchdog(
+    sim.ssb.conn.hub(),
+    env,
+    () => lastReplication,
+    {replicationGap: 60e3},
+  );
+  watchdog.start();
+
+  sim.ssb.conn.connect(address(4), {key: feedId(4)}, async err => {
+    t.error(err, 'connected');
+    t.equals(watchdog.health().state, 'healthy', 'healthy');
+
+    await sim.advance(60e3);
+    t.deepEquals(watchdog.health().problems, ['no-replication']);
+    t.equals(watchdog.health().state, 'degraded', 'degraded');
+
+    lastReplication = sim.clock.now();
+    t.equals(watchdog.health().state, 'healthy', 'healthy again');
+    t.equals(watchdog.health().lastReplicationAt, lastReplication);
+    watchdog.stop();
+    t.end();
+  });
+  sim.advance(1e3);
+});